@@ -5,6 +5,8 @@
 // - DOWN: must have at least one High priority Corrective WO
 //
 // It reads JSONs from src/data/fake and writes back workorders.json.
+// The app no longer trusts vehicles.json status: src/data/vehicleStatus.ts
+// derives it live from the same rules (plus PM due state and condition).
 
 const fs = require('fs');
 const path = require('path');
@@ -0,0 +1,156 @@
+// server/agentProxy.ts
+// POST /api/agents/{scheduler|reliability|parts} on the dev and preview servers.
+// The LLM key is read from unprefixed variables (OPENAI_API_KEY, LLM_*), which
+// Vite never bundles, and the agents run in Node via src/server/agentService.ts.
+//
+// AGENT_RATE_LIMIT  = requests per client per minute (default 20; 0 = unlimited)
+// AGENT_TRUST_PROXY = "true" when behind a reverse proxy that sets X-Forwarded-For;
+//                     otherwise clients are told apart by their socket address only
+import { createServer, loadEnv } from 'vite';
+import type { Connect, Logger, Plugin, ViteDevServer } from 'vite';
+
+const SERVICE = '/src/server/agentService.ts';
+const MAX_BODY_BYTES = 1_000_000;
+const WINDOW_MS = 60_000;
+
+/** What the proxy uses of src/server/agentService.ts (that module is typed against the app, not Node) */
+type AgentService = {
+  isAgentName: (name: string) => boolean;
+  parseAgentRequest: (body: unknown) => { text: string; history?: unknown[] } | string;
+  handleAgentRequest: (
+    agent: string,
+    req: { text: string },
+    env: Record<string, string | undefined>
+  ) => Promise<{ decision: { intent: string }; provider: string }>;
+};
+type Loader = () => Promise<AgentService>;
+
+// The parts of Node's request/response used here
+type Req = {
+  url?: string;
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  socket: { remoteAddress?: string };
+  setEncoding: (encoding: string) => void;
+  on: (event: string, listener: (arg: never) => void) => void;
+};
+type Res = {
+  statusCode: number;
+  headersSent: boolean;
+  setHeader: (name: string, value: string) => void;
+  end: (body: string) => void;
+};
+
+function rateLimiter(perMinute: number) {
+  const hits = new Map<string, { windowStart: number; count: number }>();
+  let lastSweep = Date.now();
+  return (client: string, now = Date.now()): number => {
+    if (perMinute <= 0) return 0;
+    // Drop finished windows once a minute so the map only holds recent clients
+    if (now - lastSweep >= WINDOW_MS) {
+      for (const [k, v] of hits) if (now - v.windowStart >= WINDOW_MS) hits.delete(k);
+      lastSweep = now;
+    }
+    const h = hits.get(client);
+    if (!h || now - h.windowStart >= WINDOW_MS) {
+      hits.set(client, { windowStart: now, count: 1 });
+      return 0;
+    }
+    if (h.count >= perMinute) return Math.ceil((h.windowStart + WINDOW_MS - now) / 1000);
+    h.count++;
+    return 0;
+  };
+}
+
+function readBody(req: Req): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) reject(Object.assign(new Error('request body too large'), { status: 413 }));
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', (err: Error) => reject(err));
+  });
+}
+
+function middleware(load: Loader, env: Record<string, string | undefined>, logger: Logger): Connect.NextHandleFunction {
+  const limit = rateLimiter(Number(env.AGENT_RATE_LIMIT ?? 20) || 0);
+  const trustProxy = /^(1|true|yes)$/i.test(env.AGENT_TRUST_PROXY ?? '');
+
+  return async (rawReq, rawRes) => {
+    const req = rawReq as unknown as Req;
+    const res = rawRes as unknown as Res;
+    const started = Date.now();
+    const agent = (req.url ?? '').split('?')[0].replace(/^\/+|\/+$/g, '');
+    // X-Forwarded-For is set by the caller unless a trusted proxy overwrites it
+    const forwarded = trustProxy ? String(req.headers['x-forwarded-for'] ?? '').split(',')[0].trim() : '';
+    const client = forwarded || req.socket.remoteAddress || 'unknown';
+    let status = 200;
+    let note = '';
+
+    const send = (code: number, body: unknown, headers: Record<string, string> = {}) => {
+      status = code;
+      res.statusCode = code;
+      res.setHeader('Content-Type', 'application/json');
+      for (const [k, v] of Object.entries(headers)) res.setHeader(k, v);
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const service = await load();
+      if (req.method !== 'POST') return send(405, { error: 'use POST' }, { Allow: 'POST' });
+      if (!service.isAgentName(agent)) return send(404, { error: `unknown agent "${agent}"` });
+
+      const retryAfter = limit(client);
+      if (retryAfter) return send(429, { error: 'too many agent requests, try again shortly' }, { 'Retry-After': String(retryAfter) });
+
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch (err) {
+        const code = (err as { status?: number }).status ?? 400;
+        return send(code, { error: code === 413 ? 'request body too large' : 'invalid JSON' });
+      }
+      const parsed = service.parseAgentRequest(body);
+      if (typeof parsed === 'string') return send(400, { error: parsed });
+
+      const reply = await service.handleAgentRequest(agent, parsed, env);
+      note = `${reply.provider} ${reply.decision.intent} text=${parsed.text.length}ch history=${parsed.history?.length ?? 0}`;
+      send(200, reply);
+    } catch (err) {
+      status = 500;
+      note = err instanceof Error ? err.message : String(err);
+      if (!res.headersSent) send(500, { error: 'agent failed; see the server log' });
+    } finally {
+      logger.info(`[agents] ${new Date().toISOString()} ${client} ${req.method} /${agent} ${status} ${Date.now() - started}ms ${note}`.trimEnd());
+    }
+  };
+}
+
+export function agentProxy(basePath = '/api/agents'): Plugin {
+  let env: Record<string, string | undefined> = {};
+  let root = '';
+  let logger: Logger;
+  let ssr: Promise<ViteDevServer> | null = null;
+
+  return {
+    name: 'agent-proxy',
+    configResolved(config) {
+      root = config.root;
+      logger = config.logger;
+      env = loadEnv(config.mode, config.envDir || config.root, '');
+    },
+    configureServer(server) {
+      server.middlewares.use(basePath, middleware(() => server.ssrLoadModule(SERVICE) as Promise<AgentService>, env, logger));
+    },
+    configurePreviewServer(server) {
+      // The preview server has no module loader of its own; borrow one
+      ssr ??= createServer({ root, configFile: false, logLevel: 'error', appType: 'custom', server: { middlewareMode: true, hmr: false } });
+      const load = () => ssr!.then(s => s.ssrLoadModule(SERVICE) as Promise<AgentService>);
+      server.middlewares.use(basePath, middleware(load, env, logger));
+      server.httpServer.once('close', () => { void ssr?.then(s => s.close()); });
+    },
+  };
+}
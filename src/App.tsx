@@ -1,5 +1,25 @@
+import { useEffect, useState } from 'react';
 import Dashboard from './pages/Dashboard';
+import { loadData } from './data/adapter';
 
 export default function App() {
+  const [state, setState] = useState<{ ready: boolean; error?: string }>({ ready: false });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadData()
+      .then(() => { if (!cancelled) setState({ ready: true }); })
+      .catch((err: unknown) => {
+        if (!cancelled) setState({ ready: false, error: err instanceof Error ? err.message : String(err) });
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (state.error) {
+    return <div className="p-8 text-sm text-rose-300">Could not load fleet data: {state.error}</div>;
+  }
+  if (!state.ready) {
+    return <div className="p-8 text-sm text-slate-400">Loading fleet data…</div>;
+  }
   return <Dashboard />;
 }
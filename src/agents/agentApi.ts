@@ -0,0 +1,42 @@
+// src/agents/agentApi.ts
+// The console's way to the agents: POST to the agent server, which holds the LLM
+// key and builds the knowledge packs (server/agentProxy.ts). Setting
+// VITE_AGENT_API=off runs the agents in the browser instead, which needs a
+// VITE_-prefixed key and so ships it in the bundle — local experiments only.
+import type { AgentDecision, OpsTask, PlanContext, QATurn, WorkOrder } from '../types';
+import type { PlanningHorizon } from '../data/planningHorizon';
+import { ymdLocal } from '../utils/time';
+
+export type RemoteAgent = 'scheduler' | 'reliability' | 'parts';
+
+/** VITE_AGENT_API = base path or URL of the agent server (default /api/agents) | "off" */
+export function agentApiBase(env: Record<string, string | undefined> = import.meta.env ?? {}): string | null {
+  const raw = (env.VITE_AGENT_API ?? '/api/agents').trim();
+  return raw === '' || raw.toLowerCase() === 'off' ? null : raw.replace(/\/+$/, '');
+}
+
+export async function askAgent(
+  agent: RemoteAgent,
+  payload: { text: string; history: QATurn[]; workorders?: WorkOrder[]; opsTasks?: OpsTask[]; horizon?: PlanningHorizon; planContext?: PlanContext },
+  base: string
+): Promise<AgentDecision> {
+  // The horizon travels as its local start day, so the server rebuilds the same week in its own timezone
+  const { horizon, ...rest } = payload;
+  const body = horizon ? { ...rest, horizon: { start: ymdLocal(horizon.start), days: horizon.days } } : rest;
+  try {
+    const resp = await fetch(`${base}/${agent}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const data = await resp.json().catch(() => null);
+    if (!resp.ok) {
+      const why = data?.error ?? `HTTP ${resp.status}`;
+      const wait = resp.headers.get('Retry-After');
+      return { intent: 'QA', answer: `Agent server: ${why}${resp.status === 429 && wait ? ` (retry in ${wait}s)` : ''}` };
+    }
+    return (data?.decision as AgentDecision | undefined) ?? { intent: 'QA', answer: 'Agent server returned no decision.' };
+  } catch (err) {
+    return { intent: 'QA', answer: `Agent server unreachable: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
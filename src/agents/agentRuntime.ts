@@ -1,8 +1,12 @@
 // src/agents/agentRuntime.ts
-import type { QATurn, AgentDecision, SchedulerPolicy } from '../types';
-
-// Read key from Vite env (client-side). Make sure you have VITE_OPENAI_API_KEY set.
-const OPENAI_API_KEY = (import.meta as any).env?.VITE_OPENAI_API_KEY;
+import type { AgentDecision, OpsTask, SchedulerPolicy, WorkOrder } from '../types';
+import { getHorizon, horizonLabel } from '../data/planningHorizon';
+import type { PlanningHorizon } from '../data/planningHorizon';
+import { toLocalISO } from '../utils/time';
+import { getLlmClient } from './llmClient';
+import type { ChatMessage } from './llmClient';
+import { getWorkOrders, getOpsTasks } from '../data/adapter';
+import { validateMutations } from '../data/validateMutations';
 
 // Enforce a strict output schema so the UI can act on it
 const SCHEMA = `
@@ -14,78 +18,99 @@ You are the Scheduler Agent. Output ONLY a JSON object with this shape (no prose
   "mutations": [                   // present when intent="MUTATE"
     { "op": "MOVE_WO", "id": "WO-011", "start": "YYYY-MM-DDTHH:mm:ss", "hours": 2 },
     { "op": "CANCEL_WO", "id": "WO-012" },
+    { "op": "ASSIGN_CREW", "id": "WO-011", "technicianIds": ["techA", "techE"] },
+    { "op": "SET_WO_STATUS", "id": "WO-014", "status": "On Hold" | "Awaiting Parts" | "In Progress" | "Closed" | "Open", "reason": "short reason" },
     { "op": "MOVE_OPS", "id": "OPS-105", "start": "YYYY-MM-DDTHH:mm:ss", "hours": 8 },
     { "op": "CANCEL_OPS", "id": "OPS-090" },
-    { "op": "ADD_WO", "vehicleId": "V005", "title": "Replace alternator", "hours": 2, "priority": "High", "requiredSkills": ["AutoElec"], "start": "YYYY-MM-DDTHH:mm:ss" }
+    { "op": "ADD_WO", "vehicleId": "V005", "title": "Replace alternator", "hours": 2, "priority": "High", "requiredSkills": ["AutoElec"], "crew": [{ "skill": "AutoElec", "count": 1 }], "parts": [{ "partId": "P-310", "qty": 1 }], "start": "YYYY-MM-DDTHH:mm:ss" }
   ],
   "policy": {                      // present when intent="PLAN"
-    "businessHours": [8,17],
+    "businessHours": [8,17],       // optional: only when the user asks for fixed hours; otherwise shift calendars apply
     "opsShiftDays": 1,
     "avoidOpsOverlap": true,
-    "forVehicle": "V005"           // optional
+    "forVehicle": "V005",          // optional
+    "crossDepotTravelHours": 1     // optional: let crews travel from other depots (hours each way)
   }
 }
 Rules:
 - Normalize IDs to WO-### and OPS-###.
-- Dates: interpret week around the current demo week; output local-ISO (no timezone Z).
+- Dates: interpret them within the planning horizon given below; output local-ISO (no timezone Z).
 - Never invent fields not in the schema.
 `;
 
-function extractJSON(text: string): any | null {
-  try {
-    // try whole string
-    return JSON.parse(text);
-  } catch {
-    // try to find a {...} block
-    const m = text.match(/\{[\s\S]*\}$/);
-    if (!m) return null;
-    try { return JSON.parse(m[0]); } catch { return null; }
+/** Balanced {...} blocks in order, skipping braces inside strings */
+function objectCandidates(text: string): string[] {
+  const out: string[] = [];
+  for (let from = text.indexOf('{'); from >= 0; from = text.indexOf('{', from + 1)) {
+    let depth = 0;
+    let inString = false;
+    for (let i = from; i < text.length; i++) {
+      const c = text[i];
+      if (inString) {
+        if (c === '\\') i++;
+        else if (c === '"') inString = false;
+      } else if (c === '"') inString = true;
+      else if (c === '{') depth++;
+      else if (c === '}' && --depth === 0) { out.push(text.slice(from, i + 1)); break; }
+    }
   }
+  return out;
+}
+
+/** A parsed JSON object (not an array or a primitive) */
+export function isJsonObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
 }
 
+export function extractJSON(text: string): unknown {
+  const tryParse = (s: string) => { try { return JSON.parse(s); } catch { return undefined; } };
+  // whole string, then a ```json fence, then the first balanced object that parses
+  const whole = tryParse(text.trim());
+  if (whole !== undefined) return whole;
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)?.[1];
+  const inFence = fenced ? tryParse(fenced.trim()) : undefined;
+  if (inFence !== undefined) return inFence;
+  for (const c of objectCandidates(text)) {
+    const v = tryParse(c);
+    if (isJsonObject(v)) return v;
+  }
+  return null;
+}
+
+/**
+ * Free-text Scheduler turn. MUTATE answers are validated against the plan in
+ * `pack` (workorders + opsTasks) and `horizon`; on errors the model gets one repair round
+ * with the list, and a batch that still fails comes back as QA with nothing to apply.
+ */
 export async function analyzeWithLLM(
   text: string,
-  _pack: any,
-  _history: QATurn[],
-  _ctx?: any
+  pack: { workorders?: WorkOrder[]; opsTasks?: OpsTask[] },
+  horizon: PlanningHorizon = getHorizon()
 ): Promise<AgentDecision> {
-  // If no key, at least respond (prevents “does nothing”)
-  if (!OPENAI_API_KEY) {
+  // No provider: at least respond (prevents “does nothing”)
+  const llm = getLlmClient();
+  if (!llm.configured) {
     return {
       intent: 'QA',
-      answer: "Scheduler isn't configured with an API key. Add VITE_OPENAI_API_KEY to use LLM planning. Meanwhile, try: “Move WO-011 to 09:00 on 22 Aug”, “Cancel WO-012”, “Optimise to day shift ±1 day ops”."
+      answer: "I didn't recognise that as a command, and no LLM is configured for anything else (set OPENAI_API_KEY on the agent server, or LLM_BASE_URL for a local model). Try: “Move WO-011 to 09:00 on 22 Aug”, “Cancel WO-012”, “Add a high 2h job for V005: replace alternator”, “What's unscheduled?”, “Optimise to day shift ±1 day ops”."
     };
   }
 
   // Build a compact chat with instructions + the user utterance
-  const body = {
-    model: 'gpt-4o-mini',
-    temperature: 0.2,
-    messages: [
-      { role: 'system', content: SCHEMA },
-      { role: 'user', content: text }
-    ]
-  };
-
-  const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(body)
-  });
-
-  if (!resp.ok) {
-    const msg = await resp.text().catch(() => String(resp.status));
-    return { intent: 'QA', answer: `LLM error: ${msg}` };
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SCHEMA },
+    { role: 'system', content: `Planning horizon: ${horizonLabel(horizon)} (starts ${toLocalISO(horizon.start)}).` },
+    { role: 'user', content: text }
+  ];
+  const res = await llm.chat({ messages });
+
+  if (!res.ok) {
+    return { intent: 'QA', answer: `LLM error: ${res.error}` };
   }
 
-  const data = await resp.json();
-  const raw = data?.choices?.[0]?.message?.content ?? '';
-  const parsed = extractJSON(raw);
+  const parsed = extractJSON(res.content);
 
-  if (!parsed || typeof parsed !== 'object') {
+  if (!isJsonObject(parsed)) {
     return { intent: 'QA', answer: "I couldn't produce a valid plan. Please try a more direct instruction (e.g., “Move WO-011 to 09:00 on 22 Aug”)." };
   }
 
@@ -93,13 +118,43 @@ export async function analyzeWithLLM(
   const intent = (parsed.intent === 'MUTATE' || parsed.intent === 'PLAN') ? parsed.intent : 'QA';
   const answer = typeof parsed.answer === 'string' ? parsed.answer : undefined;
 
-  if (intent === 'MUTATE' && Array.isArray(parsed.mutations)) {
-    return { intent: 'MUTATE', answer, mutations: parsed.mutations } as any;
+  if (intent === 'MUTATE') {
+    const plan = { workorders: pack.workorders ?? getWorkOrders(), opsTasks: pack.opsTasks ?? getOpsTasks(), horizon };
+    let check = validateMutations(parsed.mutations, plan);
+    let repaired = answer;
+
+    if (check.errors.length) {
+      const retry = await llm.chat({
+        messages: [
+          ...messages,
+          { role: 'assistant', content: res.content },
+          {
+            role: 'user',
+            content: `Those mutations failed validation:\n- ${check.errors.join('\n- ')}\n` +
+              'Return the corrected JSON object only. Use ids that exist and dates inside the planning horizon; ' +
+              'leave out a change you cannot fix rather than guessing.',
+          },
+        ],
+      });
+      const again = retry.ok ? extractJSON(retry.content) : null;
+      if (isJsonObject(again) && again.intent === 'MUTATE') {
+        check = validateMutations(again.mutations, plan);
+        repaired = typeof again.answer === 'string' ? again.answer : answer;
+      }
+    }
+
+    if (check.errors.length) {
+      return {
+        intent: 'QA',
+        answer: `I couldn't turn that into valid changes, so nothing was applied:\n- ${check.errors.join('\n- ')}`,
+      };
+    }
+    return { intent: 'MUTATE', answer: repaired, mutations: check.mutations };
   }
 
-  if (intent === 'PLAN' && parsed.policy && typeof parsed.policy === 'object') {
-    const policy = parsed.policy as SchedulerPolicy;
-    return { intent: 'PLAN', answer, policy } as any;
+  if (intent === 'PLAN' && isJsonObject(parsed.policy)) {
+    const policy: SchedulerPolicy = parsed.policy;
+    return { intent: 'PLAN', answer, policy };
   }
 
   return { intent: 'QA', answer: answer ?? 'Not sure what to do with that.' };
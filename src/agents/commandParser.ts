@@ -0,0 +1,307 @@
+// src/agents/commandParser.ts
+// Deterministic parser for the Scheduler console's everyday commands. It emits
+// the same AgentDecision / mutation shapes the LLM does, so the console works
+// without an API key and common commands don't round-trip to a model:
+//   move WO-011 to 09:00 on 22 Aug [for 3h]   · move OPS-105 to tomorrow 06:00 · move WO-011 to V007
+//   cancel WO-012 [and WO-013]                 · cancel OPS-090
+//   add a high 2h job for V005: replace alternator [with an autoelec] [at 10:00 on 23 Aug]
+//   accept / reject
+//   what's unscheduled · what moved · what changed [since 2 plans ago] · schedule for V005 · summary
+//   optimise to day shift ±1 day ops [for V005] [22–28 Aug 2025]
+// parseCommand returns null for anything else; the caller falls back to the LLM.
+import type { AgentDecision, OpsTask, Priority, ReportQuery, SchedulerPolicy, Skill, WorkOrder } from '../types';
+import type { Mutation } from '../data/mutatePlan';
+import { getHorizon, snapToHorizonYear } from '../data/planningHorizon';
+import type { PlanningHorizon } from '../data/planningHorizon';
+import { getShiftDefinitions } from '../data/shiftCalendar';
+import { toLocalISO } from '../utils/time';
+
+export type CommandContext = {
+  workorders: WorkOrder[];
+  opsTasks: OpsTask[];
+  horizon?: PlanningHorizon;
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+const MONTH_RE = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_RE = /\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat)\b/;
+const PRIORITY_RE = /\b(critical|high|medium|low)(?=\s+(?:priority|\d|job|wo\b|work|task))|\bpriority\s+(critical|high|medium|low)\b/;
+
+const SKILL_WORDS: Array<[RegExp, Skill]> = [
+  [/\b(auto[\s-]?elec(trician)?s?|electricians?|sparky)\b/, 'AutoElec'],
+  [/\b(mechanics?|fitters?)\b/, 'Mechanic'],
+];
+const SKILL_PHRASE_RE = /\s*(?:\((?:[^)]*)\)|\b(?:needs?|with|by|using)\s+(?:an?\s+|\d+\s+)?(?:auto[\s-]?elec(?:trician)?s?|electricians?|sparky|mechanics?|fitters?)(?:\s+and\s+(?:an?\s+)?(?:auto[\s-]?elec(?:trician)?s?|electricians?|mechanics?|fitters?))?)/gi;
+
+/* ---------- ids ---------- */
+
+/** "wo 11" / "WO-011" → "WO-011" */
+function woId(num: string) {
+  return `WO-${num.padStart(3, '0')}`;
+}
+function opsId(num: string) {
+  return `OPS-${num.padStart(3, '0')}`;
+}
+const ID_RE = /\b(wo|ops?)[\s#-]*(\d+)\b/g;
+
+function idsIn(t: string): Array<{ kind: 'wo' | 'ops'; id: string }> {
+  return [...t.matchAll(ID_RE)].map(m =>
+    m[1] === 'wo' ? { kind: 'wo' as const, id: woId(m[2]) } : { kind: 'ops' as const, id: opsId(m[2]) }
+  );
+}
+
+/* ---------- dates & times ---------- */
+
+/** Local midnight of the date mentioned in `t`, if any (year follows the planning horizon). */
+function parseDate(t: string, h: PlanningHorizon): Date | null {
+  const base = h.start;
+  const day = (y: number, m: number, d: number) => snapToHorizonYear(new Date(y, m, d), h);
+
+  let m = t.match(/\b(20\d{2})-(\d{1,2})-(\d{1,2})\b/);
+  if (m) return new Date(+m[1], +m[2] - 1, +m[3]);
+  m = t.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_RE}(?:\\s+(20\\d{2}))?`));
+  if (m) return m[3] ? new Date(+m[3], MONTHS[m[2]], +m[1]) : day(base.getFullYear(), MONTHS[m[2]], +m[1]);
+  m = t.match(new RegExp(`\\b${MONTH_RE}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(20\\d{2}))?`));
+  if (m) return m[3] ? new Date(+m[3], MONTHS[m[1]], +m[2]) : day(base.getFullYear(), MONTHS[m[1]], +m[2]);
+  m = t.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/); // d/m[/y]
+  if (m) {
+    const y = m[3] ? (m[3].length === 2 ? 2000 + +m[3] : +m[3]) : null;
+    return y ? new Date(y, +m[2] - 1, +m[1]) : day(base.getFullYear(), +m[2] - 1, +m[1]);
+  }
+
+  // Relative words count from the first day of the horizon
+  if (/\btoday\b/.test(t)) return new Date(base);
+  if (/\btomorrow\b/.test(t)) return new Date(base.getFullYear(), base.getMonth(), base.getDate() + 1);
+  m = t.match(WEEKDAY_RE);
+  if (m) {
+    const ahead = (WEEKDAYS.indexOf(m[1].slice(0, 3)) - base.getDay() + 7) % 7;
+    return new Date(base.getFullYear(), base.getMonth(), base.getDate() + ahead);
+  }
+  return null;
+}
+
+/** "09:00", "9am", "2:30 pm", "at 14", "noon" → [hours, minutes] */
+function parseTime(t: string): [number, number] | null {
+  let m = t.match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b/);
+  if (m) {
+    const h = (+m[1] % 12) + (m[3] === 'pm' ? 12 : 0);
+    return h < 24 && +(m[2] ?? 0) < 60 ? [h, +(m[2] ?? 0)] : null;
+  }
+  m = t.match(/\b(\d{1,2})[:.](\d{2})\b(?!\s*(?:h|hrs?|hours?)\b)/);
+  if (m && +m[1] < 24 && +m[2] < 60) return [+m[1], +m[2]];
+  m = t.match(new RegExp(`\\bat\\s+(\\d{1,2})\\b(?!\\s*(?:h|hrs?|hours?|${MONTH_RE})\\b)`));
+  if (m && +m[1] < 24) return [+m[1], 0];
+  if (/\bnoon\b/.test(t)) return [12, 0];
+  if (/\bmidnight\b/.test(t)) return [0, 0];
+  return null;
+}
+
+/**
+ * Start mentioned in `t`. A time without a date keeps the item's current day;
+ * a date without a time keeps its current time of day (09:00 for new work).
+ */
+function parseStart(t: string, h: PlanningHorizon, current?: string): Date | null {
+  const date = parseDate(t, h);
+  const time = parseTime(t);
+  if (!date && !time) return null;
+  const cur = current ? new Date(current) : null;
+  const d = date ?? (cur && !isNaN(+cur) ? cur : new Date(h.start));
+  const [hh, mm] = time ?? (cur && !isNaN(+cur) ? [cur.getHours(), cur.getMinutes()] : [9, 0]);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate(), hh, mm);
+}
+
+function parseHours(t: string): number | undefined {
+  const m = t.match(/(\d+(?:\.\d+)?)\s*(?:-\s*)?(?:h|hrs?|hours?)\b/);
+  return m ? Math.max(0.25, +m[1]) : undefined;
+}
+
+const fmt = (d: Date) =>
+  d.toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/* ---------- command families ---------- */
+
+function parseMove(t: string, ctx: CommandContext, h: PlanningHorizon): AgentDecision | null {
+  const verb = t.match(/^(move|reschedule|shift|push|pull|bring)\s+/);
+  if (!verb) return null;
+  // Only "move <one id> …" as a plain instruction; questions, conditions and
+  // more than one job ("move WO-012 unless WO-013 slips") are left to the LLM
+  const ids = idsIn(t);
+  if (ids.length !== 1 || t.slice(verb[0].length).search(ID_RE) !== 0) return null;
+  if (/\?|\b(?:why|if|unless|when|but|because|or)\b/.test(t)) return null;
+  const [target] = ids;
+  const rest = t.replace(ID_RE, ' ');
+  const item = target.kind === 'wo'
+    ? ctx.workorders.find(w => w.id.toUpperCase() === target.id)
+    : ctx.opsTasks.find(o => o.id.toUpperCase() === target.id);
+  // "to V007" hands a work order to another vehicle (same slot unless a time is given)
+  const vehicle = target.kind === 'wo' ? rest.match(/\b(?:to|onto)\s+(v-?\d+)\b/)?.[1] : undefined;
+  const vehicleId = vehicle?.toUpperCase().replace('-', '');
+  const start = parseStart(rest.replace(/\bv-?\d+\b/g, ' '), h, item?.start);
+  const hours = parseHours(rest);
+  if (!start && !vehicleId) return null;
+
+  const when = start ? { start: toLocalISO(start) } : {};
+  const mutation: Mutation = target.kind === 'wo'
+    ? { type: 'MOVE_WO', id: target.id, ...when, ...(hours ? { hours } : {}), ...(vehicleId ? { vehicleId } : {}) }
+    : { type: 'MOVE_OPS', id: target.id, ...when, ...(hours ? { hours } : {}) };
+  return {
+    intent: 'MUTATE',
+    answer: `Moving ${target.id}${vehicleId ? ` to ${vehicleId}` : ''}${start ? ` to ${fmt(start)}` : ''}${hours ? ` for ${hours}h` : ''}.`,
+    mutations: [mutation],
+  };
+}
+
+function parseCancel(t: string): AgentDecision | null {
+  const verb = t.match(/^(cancel|delete|remove|drop|scrap)\b/);
+  if (!verb) return null;
+  // Only a bare list of ids ("cancel WO-012, WO-013 and WO-014"); anything else
+  // ("cancel WO-012 unless WO-013 slips") is left to the LLM
+  const rest = t.slice(verb[0].length);
+  if (rest.replace(ID_RE, ' ').replace(/,|&|\band\b/g, ' ').replace(/[.!]+$/, '').trim()) return null;
+  const ids = idsIn(rest);
+  if (!ids.length) return null;
+  return {
+    intent: 'MUTATE',
+    answer: `Cancelling ${ids.map(x => x.id).join(', ')}.`,
+    mutations: ids.map(x => (x.kind === 'wo' ? { type: 'CANCEL_WO', id: x.id } : { type: 'CANCEL_OPS', id: x.id })),
+  };
+}
+
+function parseAdd(t: string, original: string, h: PlanningHorizon): AgentDecision | null {
+  if (!/^(add|create|raise|new|book)\b/.test(t)) return null;
+  const v = t.match(/\b(?:for|on|to)\s+(v-?\d+)\b/) ?? t.match(/\b(v-?\d+)\b/);
+  if (!v) return null;
+  const vehicleId = v[1].toUpperCase().replace('-', '');
+
+  // Title: the quoted text, else whatever follows "V005:" / "V005 -"
+  const quoted = original.match(/["“‘](.+?)["”’]/)?.[1];
+  const after = original.slice(original.toLowerCase().indexOf(v[1]) + v[1].length).match(/^\s*[:\-–]\s*(.+)$/)?.[1];
+  let title = quoted ?? after ?? '';
+
+  // A trailing "at 10:00 on 23 Aug" is the start, not part of the title
+  let start: Date | null = null;
+  const when = title.match(/\s+\b(?:at|on|from)\s+(.*)$/i);
+  if (when) {
+    start = parseStart(when[1].toLowerCase(), h);
+    if (start) title = title.slice(0, when.index);
+  }
+  title = title
+    .replace(/\s*\b(?:for\s+)?\d+(?:\.\d+)?\s*(?:h|hrs?|hours?)\b/gi, '')
+    .replace(new RegExp(PRIORITY_RE.source, 'gi'), '')
+    .replace(SKILL_PHRASE_RE, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim()
+    .replace(/[.,;]+$/, '');
+  if (!title) return null;
+
+  const pr = t.match(PRIORITY_RE);
+  const p = pr?.[1] ?? pr?.[2];
+  const priority = p ? ((p[0].toUpperCase() + p.slice(1)) as Priority) : undefined;
+  const hours = parseHours(t);
+  const skills = SKILL_WORDS.filter(([re]) => re.test(t)).map(([, s]) => s);
+
+  const mutation: Mutation = {
+    type: 'ADD_WO',
+    vehicleId,
+    title: title[0].toUpperCase() + title.slice(1),
+    hours: hours ?? 2,
+    ...(priority ? { priority } : {}),
+    ...(skills.length ? { requiredSkills: skills } : {}),
+    ...(start ? { start: toLocalISO(start) } : {}),
+  };
+  return {
+    intent: 'MUTATE',
+    answer: `Adding "${mutation.title}" on ${vehicleId} (${mutation.hours}h${priority ? `, ${priority}` : ''}${skills.length ? `, ${skills.join(' + ')}` : ''})` +
+      `${start ? ` at ${fmt(start)}` : ''}.`,
+    mutations: [mutation],
+  };
+}
+
+function parseDecision(t: string): AgentDecision | null {
+  const s = t.replace(/[.!]+$/, '').trim();
+  if (/^(accept|apply|approve|confirm|yes|ok|okay|go ahead)( (it|that|the (plan|proposal|schedule)))?( please)?$/.test(s)) {
+    return { intent: 'ACCEPT' };
+  }
+  if (/^(reject|discard|decline|no|nope|scrap (it|that|the (plan|proposal)))( (it|that|the (plan|proposal|schedule)))?( please)?$/.test(s) ||
+      /^(cancel|drop) (the )?(plan|proposal)$/.test(s)) {
+    return { intent: 'REJECT' };
+  }
+  return null;
+}
+
+function parseReport(t: string): AgentDecision | null {
+  const report = (r: ReportQuery): AgentDecision => ({ intent: 'REPORT', report: r });
+
+  if (/\b(unscheduled|unplaced|not (been )?(placed|scheduled)|couldn['’]?t be (placed|scheduled)|backlog)\b/.test(t)) {
+    return report({ kind: 'UNSCHEDULED' });
+  }
+  if (/\b(what|which|show)\b.*\b(changed|delta|diff(erence)?)\b|\b(delta|diff)\b/.test(t)) {
+    const n = t.match(/\b(\d+)\s+(plans?|versions?)\s+(ago|back)\b/)?.[1];
+    return report({ kind: 'DELTA', ...(n ? { nBack: +n } : {}) });
+  }
+  if (/\b(what|which|show)\b.*\b(moved|shifted)\b/.test(t)) return report({ kind: 'MOVED' });
+  const v = t.match(/\b(?:schedule|scheduled|plan|work|jobs?)\b.*\b(?:for|on)\s+(v-?\d+)\b/) ??
+            t.match(/^(?:what['’]?s|show)\s+(?:on\s+)?(v-?\d+)\b/);
+  if (v) return report({ kind: 'SCHEDULED_FOR_VEHICLE', vehicleId: v[1].toUpperCase().replace('-', '') });
+  if (/^(summary|status|summari[sz]e|how are we (doing|tracking))\b/.test(t)) return report({ kind: 'SUMMARY' });
+  return null;
+}
+
+/** [open, close] of the "day" shift in the calendar (09:00–17:00 by default) */
+function dayShiftHours(): [number, number] {
+  const w = getShiftDefinitions().find(d => d.shift === 'day')?.windows[0] ?? { start: '09:00', end: '17:00' };
+  const hrs = (hhmm: string) => { const [a, b] = hhmm.split(':').map(Number); return a + (b || 0) / 60; };
+  return [hrs(w.start), hrs(w.end)];
+}
+
+function parsePlan(t: string): AgentDecision | null {
+  if (!/^(please\s+)?(can you\s+)?(optimi[sz]e|re-?plan|re-?schedule|suggest|propose|build|run the scheduler)\b/.test(t)) return null;
+
+  const policy: Record<string, unknown> = { avoidOpsOverlap: !/\b(allow|ignore|ok with)\b.*\b(ops|overlap)/.test(t) };
+  const notes: string[] = [];
+  if (/\bday[\s-]?shift\b|\bbusiness hours\b|\bdaytime\b/.test(t)) {
+    policy.businessHours = dayShiftHours();
+    notes.push(`day shift ${(policy.businessHours as number[]).join('–')}h`);
+  } else {
+    const bh = t.match(/\b(\d{1,2})(?::00)?\s*(?:-|–|to)\s*(\d{1,2})(?::00)?\s*(?:h|hours)\b/);
+    if (bh && +bh[1] < +bh[2] && +bh[2] <= 24) {
+      policy.businessHours = [+bh[1], +bh[2]];
+      notes.push(`hours ${bh[1]}–${bh[2]}`);
+    }
+  }
+  const ops = t.match(/(?:±|\+\/?-|\+-|plus or minus)\s*(\d+)\s*days?\b/);
+  if (ops) { policy.opsShiftDays = +ops[1]; notes.push(`±${ops[1]} day ops`); }
+  const v = t.match(/\bfor\s+(v-?\d+)\b/);
+  if (v) { policy.forVehicle = v[1].toUpperCase().replace('-', ''); notes.push(`only ${policy.forVehicle}`); }
+  const travel = t.match(/\b(?:cross[\s-]?depot|travel)\b[^\d]*(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b/);
+  if (travel) { policy.crossDepotTravelHours = +travel[1]; notes.push(`cross-depot ${travel[1]}h travel`); }
+  else if (/\b(same|home) depot only\b|\bno cross[\s-]?depot\b/.test(t)) { policy.crossDepotTravelHours = null; notes.push('same depot only'); }
+  if (policy.avoidOpsOverlap === false) notes.push('ops overlap allowed');
+
+  return {
+    intent: 'PLAN',
+    answer: `Proposing a new schedule${notes.length ? ` (${notes.join(', ')})` : ''}.`,
+    policy: policy as SchedulerPolicy,
+  };
+}
+
+/* ---------- entry point ---------- */
+
+/** The decision for a recognised command, or null to hand the text to the LLM. */
+export function parseCommand(text: string, ctx: CommandContext): AgentDecision | null {
+  const original = text.trim();
+  const t = original.toLowerCase().replace(/\s+/g, ' ');
+  if (!t) return null;
+  const h = ctx.horizon ?? getHorizon();
+  return (
+    parseDecision(t) ??
+    parseCancel(t) ??
+    parseMove(t, ctx, h) ??
+    parseAdd(t, original, h) ??
+    parsePlan(t) ??
+    parseReport(t)
+  );
+}
@@ -1,20 +1,20 @@
 // src/agents/context.ts
-import type { WorkOrder, OpsTask, Vehicle } from '../types';
+import type { WorkOrder, OpsTask, Vehicle, Technician } from '../types';
 import { getOpsTasks, getVehicles } from '../data/adapter';
 import { computeClashes } from './scheduler';
-
-/**
- * Static demo anchor (requested): first day shown is 22 Aug 2025.
- * We keep this here so agents can normalize dates consistently.
- */
-export const WEEK_START_ISO = '2025-08-22T00:00:00';
+import { getResourceSnapshot } from '../data/resourceStore';
+import { getHorizon } from '../data/planningHorizon';
+import type { PlanningHorizon } from '../data/planningHorizon';
+import { toLocalISO } from '../utils/time';
 
 type KnowledgePack = {
   meta: {
-    weekStartISO: string;     // "2025-08-22T00:00:00"
-    horizonDays: number;      // e.g. 7
+    weekStartISO: string;     // planning horizon start, local-ISO
+    horizonDays: number;      // 7 | 14 | 28
   };
-  vehiclesLite: Array<Pick<Vehicle, 'id' | 'status'>>;
+  vehiclesLite: Array<Pick<Vehicle, 'id' | 'status' | 'depot'>>;
+  /** Roster for ASSIGN_CREW (ids, skills, depot, shift) */
+  technicians: Technician[];
   workorders: WorkOrder[];
   opsTasks: OpsTask[];
   facts: {
@@ -51,29 +51,29 @@ function normalizeClashes(ret: any): { count: number; list: any[] } {
 }
 
 /**
- * Build the agent knowledge pack. The Dashboard calls this with:
- *   buildKnowledgePack({ horizonDays, baseWorkorders })
- * We keep the same signature and *also* bring in ops tasks here.
+ * Build the agent knowledge pack for the plan the planner is looking at:
+ *   buildKnowledgePack({ horizon, baseWorkorders, opsTasks })
+ * The horizon and ops tasks default to the app's current ones.
  */
 export function buildKnowledgePack(opts: {
-  horizonDays: number;
+  horizon?: PlanningHorizon;
   baseWorkorders: WorkOrder[];
+  opsTasks?: OpsTask[];
 }): KnowledgePack {
-  const { horizonDays, baseWorkorders } = opts;
-
-  // Pull this week’s ops tasks internally (no Dashboard signature change)
-  const ops = getOpsTasks(horizonDays);
+  const { horizon = getHorizon(), baseWorkorders } = opts;
+  const ops = opts.opsTasks ?? getOpsTasks();
 
   // Super-light vehicle surface for the LLM
-  const vehiclesLite = getVehicles(20).map(v => ({ id: v.id, status: v.status }));
+  const vehiclesLite = getVehicles(20).map(v => ({ id: v.id, status: v.status, depot: v.depot }));
 
   // Precompute WO vs Ops overlaps (exact, deterministic facts)
   const rawOverlap = computeClashes(baseWorkorders, ops);
   const { count: clashCount, list: clashes } = normalizeClashes(rawOverlap);
 
   return {
-    meta: { weekStartISO: WEEK_START_ISO, horizonDays },
+    meta: { weekStartISO: toLocalISO(horizon.start), horizonDays: horizon.days },
     vehiclesLite,
+    technicians: getResourceSnapshot().technicians,
     workorders: baseWorkorders,
     opsTasks: ops,
     facts: {
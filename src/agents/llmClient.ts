@@ -0,0 +1,243 @@
+// src/agents/llmClient.ts
+// One LLM client for every agent. Providers are pluggable: OpenAI, any
+// OpenAI-compatible server (Ollama, llama.cpp, vLLM, a company gateway) or a
+// mock that replays recorded responses. Model, temperature, timeout, retries and
+// the prompt token budget are configured here and nowhere else.
+import recorded from './llmFixtures.json';
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  /** Per-call override of the configured default */
+  temperature?: number;
+  /** Ask for a JSON object back (response_format where the provider supports it) */
+  json?: boolean;
+};
+
+export type ChatResult =
+  | { ok: true; content: string; model: string; truncated: boolean }
+  | { ok: false; error: string };
+
+/** What a provider receives once the client has applied defaults and the budget */
+export type ProviderRequest = {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  json: boolean;
+  signal: AbortSignal;
+};
+
+export type LlmProvider = {
+  name: string;
+  complete: (req: ProviderRequest) => Promise<string>;
+};
+
+export type LlmSettings = {
+  model: string;
+  temperature: number;
+  /** Per attempt */
+  timeoutMs: number;
+  /** Extra attempts after a timeout, network error, 429 or 5xx */
+  maxRetries: number;
+  /** Prompt budget (≈ 4 characters per token); history, then the last message, are trimmed to fit */
+  maxPromptTokens: number;
+  /** Completion budget */
+  maxTokens: number;
+};
+
+export type LlmClient = {
+  provider: string;
+  settings: LlmSettings;
+  /** False when no provider is set up; agents answer from computed data instead */
+  configured: boolean;
+  chat: (req: ChatRequest) => Promise<ChatResult>;
+};
+
+/** HTTP failure from a provider; the client retries 429 and 5xx, not other statuses */
+export function llmHttpError(status: number, body: string): Error & { status: number } {
+  return Object.assign(new Error(`HTTP ${status}: ${body.slice(0, 400)}`), { status });
+}
+const retryable = (err: unknown) => {
+  const status = (err as { status?: unknown })?.status;
+  return typeof status !== 'number' || status === 429 || status >= 500;
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  model: 'gpt-4o-mini',
+  temperature: 0.2,
+  timeoutMs: 30_000,
+  maxRetries: 2,
+  maxPromptTokens: 24_000,
+  maxTokens: 1_200,
+};
+
+/* ===================== providers ===================== */
+
+/** POST {baseUrl}/chat/completions — api.openai.com or any compatible server (key optional) */
+export function openAICompatibleProvider(opts: { baseUrl: string; apiKey?: string; name?: string }): LlmProvider {
+  const url = `${opts.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    name: opts.name ?? `openai-compatible:${opts.baseUrl}`,
+    complete: async ({ model, messages, temperature, maxTokens, json, signal }) => {
+      const resp = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model, messages, temperature, max_tokens: maxTokens,
+          ...(json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal,
+      });
+      if (!resp.ok) throw llmHttpError(resp.status, await resp.text().catch(() => ''));
+      const data = await resp.json();
+      return String(data?.choices?.[0]?.message?.content ?? data?.choices?.[0]?.text ?? '');
+    },
+  };
+}
+
+/** A recorded exchange: the first fixture whose `match` appears in the last user message answers */
+export type LlmFixture = { match: string; response: string };
+
+/**
+ * Replays recorded responses (no network). `calls` keeps every request so a
+ * test can assert on what an agent sent.
+ */
+export function mockProvider(fixtures: LlmFixture[] = recorded as LlmFixture[], fallback = '{"intent":"QA","answer":"(mock) no recorded response"}') {
+  const calls: ProviderRequest[] = [];
+  const provider: LlmProvider & { calls: ProviderRequest[] } = {
+    name: 'mock',
+    calls,
+    complete: async (req) => {
+      calls.push(req);
+      const last = [...req.messages].reverse().find(m => m.role === 'user')?.content.toLowerCase() ?? '';
+      return fixtures.find(f => last.includes(f.match.toLowerCase()))?.response ?? fallback;
+    },
+  };
+  return provider;
+}
+
+/* ===================== budgeting & retries ===================== */
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4) + 4;
+
+/**
+ * Keep the system prompt(s) and the last message; drop the oldest history
+ * until the prompt fits, then cut the middle of the last message if it still doesn't.
+ */
+export function fitToBudget(messages: ChatMessage[], maxPromptTokens: number): { messages: ChatMessage[]; truncated: boolean } {
+  const total = (ms: ChatMessage[]) => ms.reduce((n, m) => n + estimateTokens(m.content), 0);
+  if (total(messages) <= maxPromptTokens || messages.length === 0) return { messages, truncated: false };
+
+  const system = messages.filter((m, i) => m.role === 'system' && i < messages.length - 1);
+  const last = messages[messages.length - 1];
+  const history = messages.slice(0, -1).filter(m => !system.includes(m));
+  while (history.length && total([...system, ...history, last]) > maxPromptTokens) history.shift();
+
+  let tail = last;
+  const room = maxPromptTokens - total([...system, ...history]) - 16;
+  if (estimateTokens(last.content) > room) {
+    const keep = Math.max(0, room * 4);
+    tail = {
+      ...last,
+      content: `${last.content.slice(0, Math.ceil(keep * 0.7))}\n…[truncated to fit the token budget]…\n${last.content.slice(-Math.floor(keep * 0.3))}`,
+    };
+  }
+  return { messages: [...system, ...history, tail], truncated: true };
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+export function createLlmClient(provider: LlmProvider | null, settings: Partial<LlmSettings> = {}): LlmClient {
+  const s: LlmSettings = { ...DEFAULT_LLM_SETTINGS, ...settings };
+  return {
+    provider: provider?.name ?? 'none',
+    settings: s,
+    configured: !!provider,
+    chat: async (req) => {
+      if (!provider) return { ok: false, error: 'no LLM provider configured' };
+      const { messages, truncated } = fitToBudget(req.messages, s.maxPromptTokens);
+
+      let lastError = '';
+      for (let attempt = 0; attempt <= s.maxRetries; attempt++) {
+        if (attempt) await sleep(500 * 2 ** (attempt - 1));
+        const ctrl = new AbortController();
+        const timer = setTimeout(() => ctrl.abort(), s.timeoutMs);
+        try {
+          const content = await provider.complete({
+            model: s.model,
+            messages,
+            temperature: req.temperature ?? s.temperature,
+            maxTokens: s.maxTokens,
+            json: !!req.json,
+            signal: ctrl.signal,
+          });
+          if (!content.trim()) { lastError = 'empty response'; continue; }
+          return { ok: true, content, model: s.model, truncated };
+        } catch (err) {
+          if (!retryable(err)) return { ok: false, error: (err as Error).message };
+          lastError = ctrl.signal.aborted ? `timed out after ${s.timeoutMs} ms` : err instanceof Error ? err.message : String(err);
+        } finally {
+          clearTimeout(timer);
+        }
+      }
+      return { ok: false, error: `${lastError} (after ${s.maxRetries + 1} attempts)` };
+    },
+  };
+}
+
+/* ===================== configuration ===================== */
+
+/**
+ * VITE_LLM_PROVIDER = "openai" (default when a key is set) | "compatible" | "mock" | "none"
+ * VITE_LLM_BASE_URL = for "compatible", e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+ * VITE_LLM_API_KEY  = key for either (falls back to VITE_OPENAI_API_KEY)
+ * VITE_LLM_MODEL, VITE_LLM_TEMPERATURE, VITE_LLM_TIMEOUT_MS, VITE_LLM_MAX_RETRIES,
+ * VITE_LLM_MAX_PROMPT_TOKENS, VITE_LLM_MAX_TOKENS = override the defaults above
+ *
+ * The agent server reads the same names without the prefix (LLM_PROVIDER,
+ * OPENAI_API_KEY, …) so its key never reaches the browser bundle.
+ */
+export function llmClientFromEnv(env: Record<string, string | undefined> = import.meta.env ?? {}, prefix = 'VITE_'): LlmClient {
+  const v = (name: string) => env[prefix + name] || undefined;
+  const apiKey = v('LLM_API_KEY') ?? v('OPENAI_API_KEY');
+  const baseUrl = v('LLM_BASE_URL');
+  const kind = String(v('LLM_PROVIDER') ?? (baseUrl ? 'compatible' : apiKey ? 'openai' : 'none')).toLowerCase();
+  const num = (raw: string | undefined, fallback: number) => {
+    const n = raw === undefined ? NaN : Number(raw);
+    return Number.isFinite(n) && n >= 0 ? n : fallback;
+  };
+  const settings: Partial<LlmSettings> = {
+    model: v('LLM_MODEL') ?? DEFAULT_LLM_SETTINGS.model,
+    temperature: num(v('LLM_TEMPERATURE'), DEFAULT_LLM_SETTINGS.temperature),
+    timeoutMs: num(v('LLM_TIMEOUT_MS'), DEFAULT_LLM_SETTINGS.timeoutMs),
+    maxRetries: num(v('LLM_MAX_RETRIES'), DEFAULT_LLM_SETTINGS.maxRetries),
+    maxPromptTokens: num(v('LLM_MAX_PROMPT_TOKENS'), DEFAULT_LLM_SETTINGS.maxPromptTokens),
+    maxTokens: num(v('LLM_MAX_TOKENS'), DEFAULT_LLM_SETTINGS.maxTokens),
+  };
+
+  if (kind === 'mock') return createLlmClient(mockProvider(), settings);
+  if (kind === 'compatible' && baseUrl) {
+    return createLlmClient(openAICompatibleProvider({ baseUrl, apiKey }), settings);
+  }
+  if (kind === 'openai' && apiKey) {
+    return createLlmClient(openAICompatibleProvider({ baseUrl: 'https://api.openai.com/v1', apiKey, name: 'openai' }), settings);
+  }
+  return createLlmClient(null, settings);
+}
+
+let client: LlmClient | null = null;
+
+export function getLlmClient(): LlmClient {
+  if (!client) client = llmClientFromEnv();
+  return client;
+}
+
+/** Swap the client (e.g. a mock provider in tests); null goes back to the env configuration. */
+export function setLlmClient(next: LlmClient | null) {
+  client = next;
+}
@@ -1,73 +1,103 @@
 // src/agents/parts.ts
-import type { AgentDecision, QATurn } from '../types';
+import type { AgentDecision, QATurn, WorkOrder, PurchaseOrderDraft } from '../types';
 import { getWorkOrders } from '../data/adapter';
+import { getHorizon } from '../data/planningHorizon';
+import { ymdLocal } from '../utils/time';
+import { getInventory, etaFor } from '../data/inventoryStore';
+import { consolidateDemand, draftFromShortfalls, draftFromAgent, poTotal } from '../data/purchaseOrders';
+import type { PartDemand } from '../data/purchaseOrders';
+import { extractJSON, isJsonObject } from './agentRuntime';
+import { getLlmClient } from './llmClient';
+import type { ChatMessage } from './llmClient';
 
-/** Minimal pack: current WOs + guidance. (We let the LLM fabricate realistic PNs/prices/lead-times.) */
-export function buildPartsPack() {
-  const workorders = (getWorkOrders?.() ?? []);
+/** Catalog + stock + consolidated demand, so PO lines can be grounded in real part ids. */
+export function buildPartsPack(workorders: WorkOrder[] = getWorkOrders?.() ?? []) {
+  const inv = getInventory();
   return {
-    meta: { asOf: '2025-08-22' },
+    meta: { asOf: ymdLocal(getHorizon().start) },
+    catalog: inv.items.map(i => ({
+      part_id: i.partId, part_name: i.name, subsystem: i.subsystem, supplier: i.supplier,
+      unit_cost: i.unitCost, lead_time_days: i.leadTimeDays, on_hand: i.onHand, next_delivery: etaFor(i),
+    })),
+    demand: consolidateDemand(workorders, inv),
     workorders: workorders.map(w => ({
       id: w.id, vehicleId: w.vehicleId, title: w.title, description: w.description,
-      subsystem: w.subsystem, partId: (w as any).partId || (w as any).partID || undefined,
-      priority: w.priority, status: w.status
+      subsystem: w.subsystem, parts: w.partLines, priority: w.priority, status: w.status, start: w.start,
     })),
     guidance: [
-      'Interpret fault symptoms or WO descriptions and map to plausible parts.',
-      'Invent realistic part numbers (e.g., OEM-style), suppliers, unit cost, and lead time.',
-      'If user implies fleet-wide action, suggest a consolidated purchase quantity with rationale.',
-      'Return a concise, helpful plan the user could turn into a PO.'
-    ]
+      'Interpret fault symptoms or WO descriptions and map them to parts in the catalog.',
+      'Only use part_id values from the catalog; if nothing fits, say so instead of inventing a part.',
+      'Consolidate quantities: one line per part covering every open work order that needs it (see demand).',
+      'need_by is the date the first job would be left short (demand.needBy) unless the user asks otherwise.',
+    ],
   };
 }
 
+export type PartsPack = ReturnType<typeof buildPartsPack>;
+
+const SCHEMA = `
+You are the Parts Interpreter. Output ONLY a JSON object (no prose):
+
+{
+  "answer": string,               // short summary for the planner
+  "po_lines": [                   // empty when no order is needed
+    { "part_id": "P-221", "qty": 5, "supplier": "CoolTech Supply", "unit_cost": 420, "need_by": "YYYY-MM-DD", "wo_ids": ["WO-001"] }
+  ]
+}
+Rules:
+- part_id must come from the catalog in the pack. Never invent part numbers, suppliers or prices.
+- One line per part; qty covers all work orders needing it.
+`;
+
+function describePO(po: PurchaseOrderDraft): string {
+  const lines = po.lines.map(l =>
+    `- ${l.partId} ${l.partName} ×${l.qty} from ${l.supplier} @ $${l.unitCost} by ${l.needBy}` +
+    (l.woIds.length ? ` (${l.woIds.join(', ')})` : ''));
+  return [
+    `Draft ${po.id}: ${po.lines.length} line(s), total $${poTotal(po).toLocaleString()}. Review and export it in the PO panel.`,
+    ...lines,
+    ...(po.notes ?? []).map(n => `Note: ${n}`),
+  ].join('\n');
+}
+
+function shortfallDecision(demand: PartDemand[], lead: string): AgentDecision {
+  const po = draftFromShortfalls(demand);
+  if (!po.lines.length) return { intent: 'QA', answer: `${lead}Stock on hand covers every open work order — nothing to order.` };
+  return { intent: 'QA', answer: lead + describePO(po), purchaseOrder: po };
+}
+
 export async function analyzePartsWithLLM(
   userText: string,
-  pack: any,
+  pack: PartsPack,
   history: QATurn[] = []
 ): Promise<AgentDecision> {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY as string | undefined;
-  const SYSTEM =
-    'You are the Parts Interpreter. From symptoms/work orders, recommend parts with plausible OEM-style part numbers, supplier, unit cost, and lead time. Be realistic, concise, and actionable.';
+  const llm = getLlmClient();
+
+  if (!llm.configured) {
+    return shortfallDecision(pack.demand, 'No LLM connected, so this PO covers current shortfalls only.\n');
+  }
 
-  const messages = [
-    { role: 'system', content: SYSTEM },
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SCHEMA },
     ...history.map(h => ({ role: h.role, content: h.text })),
     {
       role: 'user',
       content: [
         'User question:\n', userText.trim(),
-        '\n\nCurrent workorders (trimmed):\n', JSON.stringify(pack)
+        '\n\nCatalog, stock, demand and workorders:\n', JSON.stringify(pack)
       ].join('')
     }
   ];
 
-  if (!apiKey) {
-    return {
-      intent: 'QA',
-      answer:
-        'Connect your API key to get tailored parts suggestions. Example: “Given repeated thermostat failures, draft a PO for 20 thermostats with lead times & cost.”'
-    };
+  const res = await llm.chat({ messages, json: true });
+  if (!res.ok) return { intent: 'QA', answer: `Parts LLM error: ${res.error}` };
+  const parsed = extractJSON(res.content);
+  if (!isJsonObject(parsed)) {
+    return shortfallDecision(pack.demand, 'The parts model returned no usable lines; drafted from current shortfalls instead.\n');
   }
 
-  try {
-    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model: 'gpt-4o-mini', temperature: 0.3, messages })
-    });
-    if (!resp.ok) {
-      const t = await resp.text();
-      return { intent: 'QA', answer: `Parts LLM error: ${t.slice(0, 400)}` };
-    }
-    const data = await resp.json();
-    const content: string =
-      data?.choices?.[0]?.message?.content ??
-      data?.choices?.[0]?.message ??
-      data?.choices?.[0]?.text ??
-      'I could not interpret parts from the current data.';
-    return { intent: 'QA', answer: String(content) };
-  } catch (err: any) {
-    return { intent: 'QA', answer: `Parts LLM request failed: ${err?.message ?? String(err)}` };
-  }
+  const answer = typeof parsed.answer === 'string' ? parsed.answer : '';
+  const po = draftFromAgent(parsed.po_lines, pack.demand, new Set(pack.workorders.map(w => w.id)));
+  if (!po) return { intent: 'QA', answer: answer || 'No purchase order needed.' };
+  return { intent: 'QA', answer: (answer ? answer + '\n\n' : '') + describePO(po), purchaseOrder: po };
 }
@@ -1,31 +1,71 @@
 // src/agents/reliability.ts
 import type { AgentDecision, QATurn } from '../types';
-import { getVehicles, getWorkOrders, getFailures } from '../data/adapter';
+import { getVehicles, getWorkOrders, getFailures, getCondition } from '../data/adapter';
+import { getHorizon } from '../data/planningHorizon';
+import { ymdLocal } from '../utils/time';
+import { analyzeReliability } from '../data/reliabilityAnalytics';
+import type { ReliabilityReport } from '../data/reliabilityAnalytics';
+import { detectFailureSpikes } from '../data/failureSpikes';
+import { forecastCondition, predictedFailures } from '../data/conditionMonitor';
+import { getLlmClient } from './llmClient';
+import type { ChatMessage } from './llmClient';
+
+const r2 = (x: number | null | undefined) => (x === null || x === undefined ? null : Math.round(x * 100) / 100);
+const sig = (p: number | undefined) => (p === undefined ? null : Number(p.toPrecision(2)));
+
+/** Computed facts only (rounded) — what the agent is allowed to cite. */
+export function summarizeReliability(r: ReliabilityReport) {
+  return {
+    window: { from: r.windowStart, to: r.asOf, days: r.windowDays },
+    fleet: { failures: r.fleet.failures, mtbfDays: r2(r.fleet.mtbfDays), mttrHours: r2(r.fleet.mttrHours) },
+    flagged: r.findings,
+    vehicles: r.vehicles.map(v => ({
+      id: v.vehicleId, failures: v.failures, mtbfDays: r2(v.mtbfDays), mttrHours: r2(v.mttrHours),
+      weibullBeta: r2(v.weibull?.beta), weibullEtaDays: r2(v.weibull?.etaDays),
+      laplaceU: r2(v.laplace?.statistic), laplaceP: sig(v.laplace?.p),
+      crowBeta: r2(v.crowAmsaa?.statistic), crowP: sig(v.crowAmsaa?.p),
+      increasing: v.increasing,
+    })),
+    paretoTop: r.pareto.filter(p => p.vital).map(p => ({ mode: p.mode, count: p.count, downtimeHours: p.downtimeHours })),
+  };
+}
 
 /** Build a compact knowledge pack for reliability analysis */
 export function buildReliabilityPack(windowWeeks = 26, historyDays = 180) {
   const vehicles = (getVehicles?.(20) ?? getVehicles?.() ?? []);
   const workorders = (getWorkOrders?.() ?? []);
   const failures = (getFailures?.() ?? []);
+  const analytics = summarizeReliability(analyzeReliability(failures, { historyDays }));
 
   return {
-    meta: { asOf: '2025-08-22', windowWeeks, historyDays },
+    meta: { asOf: ymdLocal(getHorizon().start), windowWeeks, historyDays },
+    analytics,
+    spikes: detectFailureSpikes(failures).map(a => ({
+      alert: a.text, vehicles: a.vehicleIds, firstSeen: a.firstSeen, lastSeen: a.lastSeen,
+    })),
+    conditionForecasts: predictedFailures(forecastCondition(getCondition?.() ?? [])).map(f => ({
+      vehicleId: f.vehicleId, subsystem: f.subsystem, score: f.latest, band: f.band,
+      slopePerWeek: r2(f.slopePerWeek), r2: r2(f.r2), poorOn: f.poorOn, failureOn: f.failureOn, daysToFailure: f.daysToFailure,
+    })),
     overview: 'Prime mover fleet; analyze failure trends, repeated/related faults, and recommended PM updates.',
     vehicles: vehicles.map(v => ({ id: v.id, status: v.status, criticality: v.criticality })),
     workorders: workorders.map(w => ({
       id: w.id, vehicleId: w.vehicleId, title: w.title, type: w.type,
       priority: w.priority, status: w.status, start: w.start, end: w.end, hours: w.hours
     })),
-    failures: failures.map((f: any) => ({
-      vehicleId: String(f.vehicleId ?? f.asset_id ?? ''),
-      subsystem: String(f.subsystem ?? f.system ?? ''),
-      part: String(f.part ?? f.part_id ?? f.partID ?? ''),
-      mode: String(f.mode ?? f.failure_mode ?? ''),
-      date: String(f.date ?? f.failureDate ?? f.failure_date ?? ''),
-      downtimeHours: Number(f.downtimeHours ?? f.downtime_hours ?? 0)
+    failures: failures.map(f => ({
+      vehicleId: f.vehicleId,
+      subsystem: f.subsystem,
+      part: f.partId ?? '',
+      mode: f.failureMode,
+      date: f.date,
+      downtimeHours: f.downtimeHours
     })),
     guidance: [
-      'Identify vehicles with increasing failure rate (e.g., last 3–4 weeks vs prior period).',
+      'Use the computed analytics (MTBF, MTTR, Weibull, Laplace, Crow-AMSAA, Pareto) as your evidence; do not re-derive or invent statistics.',
+      'Vehicles in analytics.flagged have a statistically increasing failure rate — quote their test values.',
+      'conditionForecasts are regression forecasts of condition scores reaching the failure limit; cite the days remaining.',
+      'spikes lists fleet-wide failure modes running well above their baseline rate; suggest inspection campaigns for them.',
       'Detect repeated or related failures by subsystem/part.',
       'Look for cross-fleet spikes (e.g., many thermostats in last ~2 months).',
       'Suggest root causes and actions (e.g., PM change, inspection, redesign).',
@@ -37,14 +77,14 @@ export function buildReliabilityPack(windowWeeks = 26, historyDays = 180) {
 /** Call the LLM and return a readable answer (no UI changes required) */
 export async function analyzeReliabilityWithLLM(
   userText: string,
-  pack: any,
+  pack: ReturnType<typeof buildReliabilityPack>,
   history: QATurn[] = []
 ): Promise<AgentDecision> {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY as string | undefined;
+  const llm = getLlmClient();
   const SYSTEM =
-    'You are the Reliability Agent. Analyze failure trends using reliability engineering principles (RCM, Weibull-thinking, Pareto, trend analysis). Give concise, actionable findings with evidence (vehicle IDs, counts, dates).';
+    'You are the Reliability Agent. The pack contains computed reliability analytics (MTBF/MTTR, Weibull fits, Laplace and Crow-AMSAA trend tests, Pareto of failure modes). Interpret them using reliability engineering principles (RCM, Pareto). Give concise, actionable findings citing the computed numbers, vehicle IDs and dates.';
 
-  const messages = [
+  const messages: ChatMessage[] = [
     { role: 'system', content: SYSTEM },
     ...history.map(h => ({ role: h.role, content: h.text })),
     {
@@ -56,34 +96,22 @@ export async function analyzeReliabilityWithLLM(
     }
   ];
 
-  if (!apiKey) {
+  if (!llm.configured) {
+    const { flagged, window } = pack.analytics;
     return {
       intent: 'QA',
-      answer:
-        'Connect your API key to analyze patterns. Once connected, ask: “Any repeated or related failures we should investigate?” or “Are thermostats spiking across the fleet?”'
+      answer: [
+        flagged.length
+          ? `Increasing failure rate (${window.from} → ${window.to}):\n` + flagged.map(f => `- ${f.vehicleId}${f.subsystem ? ` ${f.subsystem}` : ''}: ${f.text}`).join('\n')
+          : `No vehicle shows a statistically increasing failure rate (${window.from} → ${window.to}).`,
+        'Connect an LLM (API key or local model) for root-cause discussion and PM recommendations.'
+      ].join('\n\n')
     };
   }
 
-  try {
-    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model: 'gpt-4o-mini', temperature: 0.3, messages })
-    });
-    if (!resp.ok) {
-      const t = await resp.text();
-      return { intent: 'QA', answer: `Reliability LLM error: ${t.slice(0, 400)}` };
-    }
-    const data = await resp.json();
-    const content: string =
-      data?.choices?.[0]?.message?.content ??
-      data?.choices?.[0]?.message ??
-      data?.choices?.[0]?.text ??
-      'I could not derive a reliability answer.';
-    return { intent: 'QA', answer: String(content) };
-  } catch (err: any) {
-    return { intent: 'QA', answer: `Reliability LLM request failed: ${err?.message ?? String(err)}` };
-  }
+  const res = await llm.chat({ messages, temperature: 0.3 });
+  if (!res.ok) return { intent: 'QA', answer: `Reliability LLM error: ${res.error}` };
+  return { intent: 'QA', answer: res.content };
 }
 
 /** Small hello blurb for the card */
@@ -1,5 +1,19 @@
 // src/agents/scheduler.ts
-import type { WorkOrder, OpsTask, SchedulerPolicy } from '../types';
+import type { WorkOrder, OpsTask, SchedulerPolicy, Priority, Technician, CrewRequirement, CrewAssignment, Skill } from '../types';
+import { getHorizon } from '../data/planningHorizon';
+import { getResourceSnapshot } from '../data/resourceStore';
+import { getVehicles } from '../data/adapter';
+import { getDepotSettings, travelHoursFor } from '../data/depots';
+import { isPaused, isTerminal, releaseSlot, transitionError } from '../data/woLifecycle';
+import { assignmentsOf, crewLabel, crewOf } from '../data/crew';
+import { etaFor, getInventory, holdsReservation } from '../data/inventoryStore';
+import { ymdLocal } from '../utils/time';
+import {
+  getShiftDefinitions, shiftWindowsFor, shiftInstances, instanceContaining, shiftDay, windowFromHours, windowLabel,
+} from '../data/shiftCalendar';
+import type { ShiftInstance } from '../data/shiftCalendar';
+import { bookResources, getWorkshopResources, needLabel, pickResources, resourceNeeds, resourceOccupancy } from '../data/workshop';
+import type { ResourceNeed } from '../data/workshop';
 
 /** ---------- Local time helpers ---------- */
 function isoLocal(d: Date): string {
@@ -9,20 +23,20 @@ function isoLocal(d: Date): string {
 function addHours(d: Date, hrs: number) {
   return new Date(d.getTime() + hrs * 3_600_000);
 }
-function setHMS(d: Date, h: number, m = 0, s = 0, ms = 0) {
-  const x = new Date(d);
-  x.setHours(h, m, s, ms);
-  return x;
-}
 function cloneArr<T>(arr: T[]): T[] {
   return arr.map(x => ({ ...(x as any) }));
 }
 
 /** ---------- Policy shape used locally ---------- */
 type PolicyExt = SchedulerPolicy & {
+  /** Explicit hours for everyone; otherwise each technician's shift calendar applies */
   businessHours?: [number, number];
   windowStartISO?: string;
   windowEndISO?: string; // end-exclusive
+  forVehicle?: string;
+  avoidOpsOverlap?: boolean;
+  /** Overrides the depot settings: travel hours each way, null = same depot only */
+  crossDepotTravelHours?: number | null;
 };
 
 function insideWindow(d: Date, startISO?: string, endISO?: string) {
@@ -33,81 +47,349 @@ function insideWindow(d: Date, startISO?: string, endISO?: string) {
   return true;
 }
 
-function clampStartPreservingDuration(start: Date, durationH: number, open = 9, close = 17) {
-  const dayOpen = setHMS(start, open);
-  const dayClose = setHMS(start, close);
-  const latestStart = addHours(dayClose, -durationH);
+/** ---------- Solver bookkeeping ---------- */
+type Interval = { s: number; e: number };
+
+const PRIORITY_RANK: Record<Priority, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+const SLOT_MINUTES = 15;
 
-  let s = start < dayOpen ? dayOpen : start;
-  if (s > latestStart) {
-    const nextDay = new Date(start);
-    nextDay.setDate(nextDay.getDate() + 1);
-    s = setHMS(nextDay, open);
+function overlapsAny(list: Interval[] | undefined, s: number, e: number) {
+  return !!list && list.some(iv => iv.s < e && s < iv.e);
+}
+function pushInterval(map: Map<string, Interval[]>, key: string, iv: Interval) {
+  if (!map.has(key)) map.set(key, []);
+  map.get(key)!.push(iv);
+}
+function durationOf(w: WorkOrder): number {
+  if (typeof w.hours === 'number' && w.hours > 0) return Math.max(0.25, w.hours);
+  if (w.start && w.end) {
+    const h = (+new Date(w.end) - +new Date(w.start)) / 3_600_000;
+    if (Number.isFinite(h) && h > 0) return Math.max(0.25, h);
   }
-  const e = addHours(s, durationH);
-  return { s, e };
+  return 1;
 }
 
-/** ---------- PUBLIC: proposeSchedule (unchanged API) ---------- */
+/** ---------- PUBLIC: proposeSchedule (unchanged API) ----------
+ * Greedy constraint solver. Open/Scheduled work orders are placed in priority
+ * order into the earliest slot where the vehicle has no ops task or other
+ * maintenance, and a technician with every required skill is on shift for the
+ * whole job and still has availability hours left that shift (night shifts
+ * count against the day they start). Ops tasks are fixed constraints.
+ * Jobs whose parts are short start no earlier than the parts ETA.
+ * Crews come from the vehicle's depot; technicians from another depot are only
+ * used when cross-depot work is allowed, and are booked for the travel both ways.
+ * Each job also holds a bay, a lift if its subsystem needs one and its scarce
+ * tools (workshop.ts) for its whole slot, within each depot's quantities.
+ * Anything that cannot be placed is cleared and reported with a reason; work
+ * already booked outside the window is not touched.
+ */
 export function proposeSchedule(
   workordersIn: WorkOrder[],
   opsTasksIn: OpsTask[],
   policy?: SchedulerPolicy
 ) {
   const pol = (policy ?? {}) as PolicyExt;
-  const [open, close] = pol.businessHours ?? [9, 17];
+  const override = pol.businessHours ? [windowFromHours(pol.businessHours)] : null;
+  const avoidOps = pol.avoidOpsOverlap !== false;
 
   const workorders = cloneArr(workordersIn);
   const opsTasks   = cloneArr(opsTasksIn);
+  const { technicians, availability } = getResourceSnapshot();
+  const depotCfg = pol.crossDepotTravelHours !== undefined
+    ? { crossDepotTravelHours: pol.crossDepotTravelHours }
+    : getDepotSettings();
+  const depotOf = new Map(getVehicles().map(v => [v.id, v.depot]));
+  const onRoster = (skill: Skill) => technicians.filter(t => t.skills.includes(skill)).length;
+
+  const horizon = getHorizon();
+  const horizonStart = pol.windowStartISO ? new Date(pol.windowStartISO) : new Date(horizon.start);
+  const horizonEnd = pol.windowEndISO ? new Date(pol.windowEndISO) : new Date(horizon.end);
 
   const rationale: string[] = [];
   const movedIds: string[] = [];
   const scheduledIds: string[] = [];
   const unscheduledIds: string[] = [];
+  const unscheduledReasons: Record<string, string> = {};
 
-  const adjust = (item: any) => {
-    if (!item.start || !item.end) {
-      // Unscheduled items remain unscheduled
-      unscheduledIds.push(item.id);
-      return;
-    }
-    const start = new Date(item.start);
-    const end   = new Date(item.end);
-    if (isNaN(+start) || isNaN(+end)) {
-      unscheduledIds.push(item.id);
-      return;
+  // Vehicle and technician occupancy, plus remaining tech hours per day
+  const vehicleBusy = new Map<string, Interval[]>();
+  const techBusy = new Map<string, Interval[]>();
+  const resourceBusy = new Map<string, Interval[]>(); // workshop resource id
+  const hoursLeft = new Map<string, number>(); // `${techId}|YYYY-MM-DD`
+
+  // Each technician's shift occurrences over the horizon, per seat skill
+  const shiftCache = new Map<string, ShiftInstance[]>();
+  const shiftsOf = (t: Technician, skill?: Skill) => {
+    const k = `${t.id}|${skill ?? ''}`;
+    if (!shiftCache.has(k)) {
+      const { windows, days } = override ? { windows: override, days: undefined } : shiftWindowsFor(t, skill);
+      shiftCache.set(k, shiftInstances(windows, horizonStart, horizonEnd, days));
     }
+    return shiftCache.get(k)!;
+  };
+  const techById = new Map(technicians.map(t => [t.id, t]));
+  /** Availability key a booking draws on: the shift it falls in, else its calendar day */
+  const dayKey = (techId: string, s: Date, e: Date = s, skill?: Skill) => {
+    const t = techById.get(techId);
+    const inst = t && instanceContaining(shiftsOf(t, skill), s, e);
+    return `${techId}|${inst ? shiftDay(inst) : ymdLocal(s)}`;
+  };
 
-    // If outside window, rebase to windowStart @ open (if provided)
-    let s = start;
-    if (!insideWindow(s, pol.windowStartISO, pol.windowEndISO) && pol.windowStartISO) {
-      s = setHMS(new Date(pol.windowStartISO), open);
+  for (const a of availability) {
+    const k = `${a.technicianId}|${String(a.date).slice(0, 10)}`;
+    hoursLeft.set(k, (hoursLeft.get(k) ?? 0) + Number(a.hours ?? 0));
+  }
+  if (avoidOps) {
+    for (const t of opsTasks) {
+      if (!t.start || !t.end || (t as OpsTask & { status?: string }).status === 'Cancelled') continue;
+      pushInterval(vehicleBusy, t.vehicleId, { s: +new Date(t.start), e: +new Date(t.end) });
     }
+  }
 
-    const durationH = Math.max(0.25, (+end - +start) / 3_600_000);
-    const before = isoLocal(start) + ' → ' + isoLocal(end);
-    const { s: s2, e: e2 } = clampStartPreservingDuration(s, durationH, open, close);
-    const after = isoLocal(s2) + ' → ' + isoLocal(e2);
+  // Unslotted work, or work slotted inside the window; bookings in other weeks are left alone
+  const slotInWindow = (w: WorkOrder) => {
+    const s = w.start ? +new Date(w.start) : NaN;
+    return isNaN(s) || (s >= +horizonStart && s < +horizonEnd);
+  };
+  const isCandidate = (w: WorkOrder) =>
+    (w.status === 'Open' || w.status === 'Scheduled' || w.status === 'Awaiting Parts') &&
+    (!pol.forVehicle || w.vehicleId === pol.forVehicle) &&
+    slotInWindow(w);
 
-    if (before !== after) movedIds.push(item.id);
-    item.start = isoLocal(s2);
-    item.end   = isoLocal(e2);
-    if ((item as any).status === 'Open') (item as any).status = 'Scheduled';
-    scheduledIds.push(item.id);
+  // Shelf stock not already held by work that stays put; shortfalls wait for the ETA
+  const stock = new Map(getInventory().items.map(i => [i.partId.toUpperCase(), i]));
+  const freeStock = new Map([...stock].map(([k, i]) => [k, i.onHand]));
+  const takeParts = (w: WorkOrder) => {
+    for (const line of w.partLines ?? []) {
+      const k = line.partId.toUpperCase();
+      if (freeStock.has(k)) freeStock.set(k, Math.max(0, freeStock.get(k)! - line.qty));
+    }
+  };
+  /** Earliest moment all of w's parts can be on hand (local midnight of the latest ETA) */
+  const partsGate = (w: WorkOrder) => {
+    const waiting: Array<{ partId: string; eta: string }> = [];
+    for (const line of w.partLines ?? []) {
+      const item = stock.get(line.partId.toUpperCase());
+      if (!item || (freeStock.get(line.partId.toUpperCase()) ?? 0) >= line.qty) continue; // unknown parts don't block
+      waiting.push({ partId: item.partId, eta: etaFor(item) });
+    }
+    const latest = waiting.map(p => p.eta).sort().at(-1);
+    return { waiting, readyAt: latest ? new Date(`${latest}T00:00:00`) : null };
   };
+  const fmtEta = (ymd: string) =>
+    new Date(`${ymd}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+  const partsBlockedIds: string[] = [];
+  const partsDeferredIds: string[] = [];
+
+  // Work that stays put (in progress, another vehicle, booked outside the window) still occupies resources
+  const stayingPut = workorders.filter(w => !isCandidate(w));
+  for (const lane of resourceOccupancy(stayingPut, id => depotOf.get(id))) {
+    for (const b of lane.bookings) pushInterval(resourceBusy, lane.resource.id, { s: +new Date(b.start), e: +new Date(b.end) });
+  }
+  for (const w of stayingPut) {
+    if (!w.start || !w.end) continue;
+    if (isTerminal(w.status) || isPaused(w.status)) continue;
+    if (holdsReservation(w)) takeParts(w);
+    const iv = { s: +new Date(w.start), e: +new Date(w.end) };
+    if (isNaN(iv.s) || isNaN(iv.e)) continue;
+    pushInterval(vehicleBusy, w.vehicleId, iv);
+    for (const a of assignmentsOf(w)) {
+      const techId = a.technicianId;
+      pushInterval(techBusy, techId, iv);
+      const k = dayKey(techId, new Date(iv.s), new Date(iv.e), a.skill);
+      hoursLeft.set(k, (hoursLeft.get(k) ?? 0) - (iv.e - iv.s) / 3_600_000);
+    }
+  }
+
+  type SeatTech = Technician & { travelH: number };
+
+  // Fill every crew seat with a distinct technician free for the whole slot (plus
+  // travel for visitors from another depot). Home-depot and single-skill people
+  // first, so travel is a last resort and multi-skilled ones stay free for other seats.
+  function pickCrew(seats: Array<CrewRequirement & { techs: SeatTech[] }>, s: Date, e: Date, durationH: number) {
+    const chosen: Array<CrewAssignment & { travelH: number }> = [];
+    const taken = new Set<string>();
+    for (const seat of seats) {
+      for (let i = 0; i < seat.count; i++) {
+        const tech = seat.techs.find(t =>
+          !taken.has(t.id) &&
+          !!instanceContaining(shiftsOf(t, seat.skill), s, e) &&
+          (hoursLeft.get(dayKey(t.id, s, e, seat.skill)) ?? 0) >= durationH + 2 * t.travelH &&
+          !overlapsAny(techBusy.get(t.id), +s - t.travelH * 3_600_000, +e + t.travelH * 3_600_000)
+        );
+        if (!tech) return null;
+        taken.add(tech.id);
+        chosen.push({ skill: seat.skill, technicianId: tech.id, travelH: tech.travelH });
+      }
+    }
+    return chosen;
+  }
+  const crossDepotNotes: string[] = [];
+  // Status changes the lifecycle refused; the job keeps its old status
+  const statusNotes: string[] = [];
+
+  const queue = workorders
+    .filter(isCandidate)
+    .sort((a, b) =>
+      (PRIORITY_RANK[a.priority] ?? 9) - (PRIORITY_RANK[b.priority] ?? 9) ||
+      String(a.start ?? '\uffff').localeCompare(String(b.start ?? '\uffff')) ||
+      a.id.localeCompare(b.id)
+    );
+
+  // Candidate starts: every slot where the job fits inside a shift of someone who
+  // could crew it, earliest first — after the current slot (or the next one that fits)
+  function candidateStarts(w: WorkOrder, durationH: number, seats: Array<{ skill: Skill; techs: Technician[] }>): Date[] {
+    const durMs = durationH * 3_600_000;
+    const starts = new Set<number>();
+    for (const seat of seats) {
+      for (const t of seat.techs) {
+        for (const i of shiftsOf(t, seat.skill)) {
+          for (let s = +i.start; s + durMs <= +i.end; s += SLOT_MINUTES * 60_000) starts.add(s);
+        }
+      }
+    }
+    const sorted = [...starts].sort((a, b) => a - b);
+    const cur = w.start ? +new Date(w.start) : NaN;
+    if (!isNaN(cur) && insideWindow(new Date(cur), horizonStart.toISOString(), horizonEnd.toISOString())) {
+      const first = sorted.find(x => x >= cur);
+      if (first !== undefined) sorted.unshift(first);
+    }
+    return sorted.map(x => new Date(x));
+  }
+
+  for (const w of queue) {
+    const durationH = durationOf(w);
+    const depot = depotOf.get(w.vehicleId);
+    const seats = crewOf(w).map(c => ({
+      ...c,
+      techs: technicians
+        .filter(t => t.skills.includes(c.skill))
+        .map(t => ({ ...t, travelH: travelHoursFor(t, depot, depotCfg) }))
+        .filter((t): t is SeatTech => t.travelH !== null)
+        .sort((a, b) => a.travelH - b.travelH || a.skills.length - b.skills.length),
+    }));
+    const short = seats.find(c => c.techs.length < c.count);
+    const parts = partsGate(w);
+    const { needs, missing } = resourceNeeds(w, depot);
+    const blocked = !!short || missing.length > 0;
+
+    let placed: { s: Date; e: Date; crew: Array<CrewAssignment & { travelH: number }>; resources: string[] } | null = null;
+    let sawVehicleWindow = false;
+    let sawResourceWindow = false;
+    let busyNeed: ResourceNeed | null = null;
+    const starts = blocked ? [] : candidateStarts(w, durationH, seats);
+
+    if (!blocked) {
+      for (const s of starts) {
+        const e = addHours(s, durationH);
+        if (s < horizonStart || e > horizonEnd) continue;
+        if (parts.readyAt && s < parts.readyAt) continue;
+        if (overlapsAny(vehicleBusy.get(w.vehicleId), +s, +e)) continue;
+        sawVehicleWindow = true;
 
-  workorders.forEach(adjust);
-  opsTasks.forEach(adjust);
+        const res = pickResources(needs, resourceBusy, +s, +e);
+        if ('blocked' in res) { busyNeed = res.blocked; continue; }
+        sawResourceWindow = true;
+
+        const crew = pickCrew(seats, s, e, durationH);
+        if (crew) { placed = { s, e, crew, resources: res.ids }; break; }
+      }
+    }
+
+    if (!placed) {
+      const awaiting = parts.waiting.length
+        ? `awaiting ${parts.waiting.map(p => `${p.partId} (ETA ${fmtEta(p.eta)})`).join(', ')}`
+        : '';
+      const baseReason =
+        short ? (
+          short.techs.length < onRoster(short.skill)
+            ? (short.techs.length ? `needs ${short.count}× ${short.skill}, only ${short.techs.length} at ${depot}` : `no ${short.skill} technician at ${depot}`) +
+              (depotCfg.crossDepotTravelHours === null ? ' (cross-depot assignment is off)' : '')
+            : short.techs.length ? `needs ${short.count}× ${short.skill}, only ${short.techs.length} on the roster` : `no technician with ${short.skill} skill`
+        ) :
+        missing.length ? `no ${missing.join(', ')} in the workshop registry` :
+        !starts.length ? `no ${seats.map(c => c.skill).join('/')} shift long enough for a ${durationH}h job` :
+        !sawVehicleWindow ? `no ${durationH}h window on ${w.vehicleId} clear of ops during the crew's shifts` :
+        !sawResourceWindow && busyNeed ? `${needLabel(busyNeed)} in use in every ops-free window` :
+        seats.length > 1 || seats[0]?.count > 1 ? `no ops-free window where a ${crewLabel(w)} crew is free together` :
+        `${seats[0]?.skill ?? 'Mechanic'} technicians fully booked in every ops-free window`;
+      // Parts are the blocker when they can't arrive inside the window, otherwise say what's left after the ETA
+      const reason = !awaiting || blocked ? baseReason
+        : parts.readyAt! >= horizonEnd ? awaiting
+        : `${awaiting}; after that, ${baseReason}`;
+      const to = awaiting && !blocked ? 'Awaiting Parts' : 'Open';
+      const err = transitionError(w.id, w.status, to);
+      if (err) statusNotes.push(err);
+      else { releaseSlot(w); w.status = to; }
+      if (awaiting && !blocked) partsBlockedIds.push(w.id);
+      unscheduledIds.push(w.id);
+      unscheduledReasons[w.id] = reason;
+      continue;
+    }
+
+    const iv = { s: +placed.s, e: +placed.e };
+    pushInterval(vehicleBusy, w.vehicleId, iv);
+    bookResources(resourceBusy, placed.resources, iv.s, iv.e);
+    for (const a of placed.crew) {
+      const travelMs = a.travelH * 3_600_000;
+      pushInterval(techBusy, a.technicianId, { s: iv.s - travelMs, e: iv.e + travelMs });
+      const k = dayKey(a.technicianId, placed.s, placed.e, a.skill);
+      hoursLeft.set(k, (hoursLeft.get(k) ?? 0) - durationH - 2 * a.travelH);
+    }
+    const visitors = placed.crew.filter(a => a.travelH > 0);
+    if (visitors.length) {
+      crossDepotNotes.push(`${w.id} (${depot}) crewed by ${visitors.map(a => a.technicianId).join(', ')} from another depot, +${visitors[0].travelH}h travel each way.`);
+    }
+
+    const start = isoLocal(placed.s);
+    const end = isoLocal(placed.e);
+    const hadSlot = !!(w.start && w.end);
+    if (hadSlot && (+new Date(w.start!) !== iv.s || +new Date(w.end!) !== iv.e)) movedIds.push(w.id);
+    w.start = start;
+    w.end = end;
+    w.hours = durationH;
+    w.assignments = placed.crew.map(({ skill, technicianId }) => ({ skill, technicianId }));
+    w.technicianId = placed.crew[0]?.technicianId;
+    w.resourceClaims = placed.resources.length ? placed.resources : undefined;
+    if (w.status === 'Open' || w.status === 'Awaiting Parts') {
+      const err = transitionError(w.id, w.status, 'Scheduled');
+      if (err) statusNotes.push(err);
+      else w.status = 'Scheduled';
+    }
+    takeParts(w);
+    if (parts.waiting.length) partsDeferredIds.push(w.id);
+    scheduledIds.push(w.id);
+  }
 
   const moved = movedIds.length;
   const scheduled = scheduledIds.length;
   const unscheduled = unscheduledIds.length;
+  const clashes = computeClashes(workorders.filter(w => scheduledIds.includes(w.id)), opsTasks);
 
   rationale.push(
-    `Applied business hours ${open}:00–${close}:00 local.`,
+    `Placed ${scheduled} of ${queue.length} work orders in priority order (Critical → Low).`,
+    override
+      ? `Applied business hours ${windowLabel(override[0])} local with ${SLOT_MINUTES}-minute slots.`
+      : `Placed work inside technicians' shift windows (${getShiftDefinitions()
+          .map(d => `${d.name} ${d.windows.map(windowLabel).join(' + ')}`).join('; ')}) with ${SLOT_MINUTES}-minute slots.`,
+    `Matched technicians by required skill and daily availability hours.`,
+    depotCfg.crossDepotTravelHours === null
+      ? `Crews drawn from each vehicle's depot only.`
+      : `Crews drawn from each vehicle's depot first; other depots allowed with ${depotCfg.crossDepotTravelHours}h travel each way.`,
+    `Held jobs until their parts are on hand (shelf stock first, then supplier ETA).`,
+    ...(getWorkshopResources().length
+      ? [`Each job holds a bay, a lift where its subsystem needs one and its registered tools, within each depot's quantities.`]
+      : []),
+    avoidOps
+      ? `Ops tasks kept fixed; ${clashes.total} maintenance/ops overlaps in the proposal.`
+      : 'Ops overlap avoidance disabled by policy.',
     ...(pol.windowStartISO && pol.windowEndISO
-      ? [`Rebased items into the window ${pol.windowStartISO} – ${pol.windowEndISO} (end‑exclusive).`]
-      : [])
+      ? [`Restricted to the window ${pol.windowStartISO} – ${pol.windowEndISO} (end‑exclusive).`]
+      : []),
+    ...partsDeferredIds.map(id => `${id} placed after its parts arrive.`),
+    ...crossDepotNotes,
+    ...statusNotes,
+    ...unscheduledIds.map(id => `${id} not placed: ${unscheduledReasons[id]}.`)
   );
 
   return {
@@ -119,6 +401,9 @@ export function proposeSchedule(
     movedIds,
     scheduledIds,
     unscheduledIds,
+    unscheduledReasons,
+    partsBlockedIds,
+    partsDeferredIds,
     rationale,
   };
 }
@@ -8,7 +8,8 @@ export default function AgentConsole(props: {
   title: string;
   hasPreview: boolean;
   onSuggest: (policy?: SchedulerPolicy) => Promise<{ moved: number; scheduled: number; unscheduled: number; notes: string[] }>;
-  onAccept: () => void;
+  /** errors = why nothing was applied */
+  onAccept: () => { applied: boolean; errors: string[] };
   onReject: () => void;
   onReport: (q: ReportQuery) => Promise<string>;
   onDecide: (text: string, history: QATurn[]) => Promise<AgentDecision>;
@@ -67,7 +68,10 @@ export default function AgentConsole(props: {
         }
         case 'ACCEPT': {
           if (!hasPreview) push({ role: 'assistant', text: 'No pending proposal to accept. Try “suggest a new schedule” first.' });
-          else { onAccept(); push({ role: 'assistant', text: 'Applied. Gantt updated.' }); }
+          else {
+            const res = onAccept();
+            push({ role: 'assistant', text: res.applied ? 'Applied. Gantt updated.' : `Nothing was applied:\n- ${res.errors.join('\n- ')}` });
+          }
           break;
         }
         case 'REJECT': {
@@ -0,0 +1,51 @@
+// src/components/AuditTrail.tsx
+import { useMemo, useState } from 'react';
+import type { AuditEntry } from '../data/auditLog';
+
+const ACTOR_CLASS: Record<AuditEntry['actor']['kind'], string> = {
+  user: 'bg-sky-900/40 text-sky-300',
+  agent: 'bg-violet-900/40 text-violet-300',
+  script: 'bg-slate-800 text-slate-300',
+};
+
+export default function AuditTrail({ entries, limit = 200 }: { entries: AuditEntry[]; limit?: number }) {
+  const [query, setQuery] = useState('');
+
+  const rows = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const hit = (e: AuditEntry) =>
+      !q || [e.entityId, e.action, e.actor.name, e.from, e.to].some(x => x?.toLowerCase().includes(q));
+    return entries.filter(hit).slice(-limit).reverse();
+  }, [entries, query, limit]);
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-3">
+      <details className="text-xs text-slate-300">
+        <summary className="cursor-pointer text-slate-100 text-sm font-semibold">
+          Audit trail <span className="text-xs font-normal text-slate-400">({entries.length} changes)</span>
+        </summary>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filter by WO, action or who…"
+          className="mt-2 w-full bg-slate-950/60 border border-slate-700 rounded-md px-2 py-1 text-slate-200 outline-none"
+        />
+        <ul className="mt-2 space-y-1 max-h-64 overflow-auto pr-1">
+          {rows.map(e => (
+            <li key={e.id} className="flex items-center gap-2 rounded-md border border-slate-800 bg-slate-900/40 px-2 py-1">
+              <span className="text-slate-500 shrink-0">{new Date(e.when).toLocaleString()}</span>
+              <span className={`text-[10px] px-1.5 rounded shrink-0 ${ACTOR_CLASS[e.actor.kind]}`}>{e.actor.name}</span>
+              <span className="text-slate-200 shrink-0">{e.entityId}</span>
+              <span className="text-slate-400 shrink-0">{e.action}</span>
+              <span className="truncate" title={[e.from, e.to].filter(Boolean).join(' → ')}>
+                {e.from && <span className="text-slate-500">{e.from} → </span>}
+                {e.to}
+              </span>
+            </li>
+          ))}
+          {!rows.length && <li className="text-slate-500">No changes recorded.</li>}
+        </ul>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+// src/components/ConditionMonitor.tsx
+import { useMemo, useState } from 'react';
+import type { ConditionForecast, ConditionTrigger } from '../data/conditionMonitor';
+import { FAILURE_LIMIT } from '../data/conditionMonitor';
+import ConditionSparkline from './ConditionSparkline';
+
+const SUBSYSTEMS = ['engine', 'transmission', 'cooling', 'brakes', 'electrical'];
+
+const BAND_TEXT: Record<ConditionForecast['band'], string> = {
+  Good: 'text-emerald-400',
+  Watch: 'text-amber-400',
+  Poor: 'text-red-400',
+};
+
+function tooltip(f: ConditionForecast) {
+  return [
+    `${f.vehicleId} ${f.subsystem}: ${f.latest} (${f.band})`,
+    `trend ${f.slopePerWeek.toFixed(2)}/wk, r² ${f.r2.toFixed(2)}`,
+    f.watchOn && `Watch from ${f.watchOn}`,
+    f.poorOn && `Poor from ${f.poorOn}`,
+    f.failureOn && `failure limit (${FAILURE_LIMIT}) ~${f.failureOn}`,
+  ].filter(Boolean).join('\n');
+}
+
+export default function ConditionMonitor({
+  forecasts,
+  predicted,
+  triggers,
+  pendingWorkOrders,
+  onRaise,
+  onSelectVehicle,
+}: {
+  forecasts: ConditionForecast[];
+  /** Forecast functional failures, soonest first */
+  predicted: ConditionForecast[];
+  triggers: ConditionTrigger[];
+  /** Triggered work orders not yet in the plan */
+  pendingWorkOrders: number;
+  onRaise: () => void;
+  onSelectVehicle?: (vehicleId: string) => void;
+}) {
+  const [atRiskOnly, setAtRiskOnly] = useState(true);
+
+  const byVehicle = useMemo(() => {
+    const m = new Map<string, Map<string, ConditionForecast>>();
+    for (const f of forecasts) {
+      if (!m.has(f.vehicleId)) m.set(f.vehicleId, new Map());
+      m.get(f.vehicleId)!.set(f.subsystem, f);
+    }
+    return m;
+  }, [forecasts]);
+
+  const atRisk = useMemo(
+    () => new Set([...predicted, ...triggers.map(t => t.forecast)].map(f => f.vehicleId)),
+    [predicted, triggers]
+  );
+  const vehicleIds = [...byVehicle.keys()].filter(v => !atRiskOnly || atRisk.has(v));
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-3">
+      <details className="text-xs text-slate-300">
+        <summary className="cursor-pointer text-slate-100 text-sm font-semibold">
+          Condition monitoring{' '}
+          <span className="text-xs font-normal text-slate-400">
+            ({forecasts.length} series · {predicted.length} predicted failures · {triggers.length} rule triggers)
+          </span>
+        </summary>
+
+        {!!predicted.length && (
+          <ul className="mt-2 space-y-1">
+            {predicted.map(f => (
+              <li key={`${f.vehicleId}|${f.subsystem}`} className="rounded-md border border-rose-800/50 bg-rose-950/30 px-2 py-1 text-rose-200">
+                <span className="font-medium">{f.vehicleId} {f.subsystem}</span> — predicted to reach the failure limit in {f.daysToFailure} days
+                (~{f.failureOn}); now {f.latest} ({f.band}), {f.slopePerWeek.toFixed(1)}/wk, r² {f.r2.toFixed(2)}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={atRiskOnly} onChange={(e) => setAtRiskOnly(e.target.checked)} />
+            At-risk vehicles only
+          </label>
+          <span className="text-slate-500">
+            Rules: forecast Watch within 14 d → Inspection; Poor (or forecast within 14 d) → Corrective
+          </span>
+          {pendingWorkOrders > 0 && (
+            <button onClick={onRaise} className="ml-auto px-2 py-1 rounded-md bg-sky-700 hover:bg-sky-600 text-white">
+              Raise {pendingWorkOrders} work orders
+            </button>
+          )}
+        </div>
+
+        <div className="mt-2 max-h-80 overflow-auto">
+          <table className="w-full text-left">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="py-1 pr-2 font-normal">Vehicle</th>
+                {SUBSYSTEMS.map(s => <th key={s} className="py-1 pr-2 font-normal capitalize">{s}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {vehicleIds.map(v => (
+                <tr key={v}>
+                  <td className="py-1 pr-2">
+                    <button onClick={() => onSelectVehicle?.(v)} className="text-slate-200 hover:text-sky-300">{v}</button>
+                  </td>
+                  {SUBSYSTEMS.map(s => {
+                    const f = byVehicle.get(v)?.get(s);
+                    if (!f) return <td key={s} className="py-1 pr-2 text-slate-600">—</td>;
+                    return (
+                      <td key={s} className="py-1 pr-2" title={tooltip(f)}>
+                        <div className="flex items-center gap-1">
+                          <ConditionSparkline f={f} />
+                          <span className={BAND_TEXT[f.band]}>{Math.round(f.latest)}</span>
+                        </div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {!vehicleIds.length && (
+                <tr><td colSpan={SUBSYSTEMS.length + 1} className="py-2 text-slate-500">No vehicles at risk.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// src/components/ConditionSparkline.tsx
+import type { ConditionForecast } from '../data/conditionMonitor';
+import { WATCH_BELOW, POOR_BELOW } from '../data/conditionMonitor';
+
+const BAND_STROKE: Record<ConditionForecast['band'], string> = {
+  Good: '#34d399',
+  Watch: '#fbbf24',
+  Poor: '#f87171',
+};
+
+/** Condition history with Watch/Poor guides and the fitted trend extended `aheadWeeks` past the last snapshot. */
+export default function ConditionSparkline({
+  f,
+  width = 96,
+  height = 24,
+  points = 16,
+  aheadWeeks = 4,
+}: {
+  f: ConditionForecast;
+  width?: number;
+  height?: number;
+  /** Most recent snapshots drawn */
+  points?: number;
+  aheadWeeks?: number;
+}) {
+  const pts = f.series.slice(-points);
+  const n = pts.length + aheadWeeks;
+  const x = (i: number) => (i / Math.max(1, n - 1)) * width;
+  const y = (v: number) => height - (Math.max(0, Math.min(100, v)) / 100) * height;
+  const line = pts.map((p, i) => `${x(i).toFixed(1)},${y(p.condition).toFixed(1)}`).join(' ');
+  const last = pts.length - 1;
+  const ahead = f.degrading ? f.fitted + f.slopePerWeek * aheadWeeks : f.latest;
+
+  return (
+    <svg width={width} height={height} className="shrink-0">
+      <line x1={0} x2={width} y1={y(WATCH_BELOW)} y2={y(WATCH_BELOW)} stroke="#334155" strokeDasharray="2 2" />
+      <line x1={0} x2={width} y1={y(POOR_BELOW)} y2={y(POOR_BELOW)} stroke="#334155" strokeDasharray="2 2" />
+      <polyline points={line} fill="none" stroke={BAND_STROKE[f.band]} strokeWidth={1.5} />
+      {f.degrading && (
+        <line
+          x1={x(last)} y1={y(f.fitted)} x2={x(n - 1)} y2={y(ahead)}
+          stroke={BAND_STROKE[f.band]} strokeWidth={1} strokeDasharray="3 2" opacity={0.7}
+        />
+      )}
+    </svg>
+  );
+}
@@ -1,12 +1,9 @@
-import React, { useMemo } from 'react';
+import { useMemo } from 'react';
 import { getDemandHistory } from '../data/adapter';
+import { horizonDayKeys } from '../data/planningHorizon';
+import type { PlanningHorizon } from '../data/planningHorizon';
 import type { DemandRecord } from '../types';
 
-// Fixed week labels anchored to 22 Aug 2025 for consistent display
-const WEEK_START = new Date('2025-08-23T00:00:00');
-
-function ymd(d: Date) { return d.toISOString().slice(0, 10); }
-function addDays(d: Date, n: number) { const x = new Date(d); x.setDate(x.getDate() + n); return x; }
 function shortLabel(d: Date) {
   const w = d.toLocaleDateString(undefined, { weekday: 'short' });
   const m = d.toLocaleDateString(undefined, { month: 'short' });
@@ -14,16 +11,14 @@ function shortLabel(d: Date) {
   return `${w}, ${day} ${m}`;
 }
 
-export default function DemandSummary() {
-  const horizon = 7;
+export default function DemandSummary({ horizon: h }: { horizon: PlanningHorizon }) {
+  const horizon = h.days;
 
   // Demand records (hours per day)
-  const raw: DemandRecord[] = useMemo(() => (getDemandHistory?.(horizon) ?? []), [horizon]);
+  const raw: DemandRecord[] = useMemo(() => (getDemandHistory?.(horizon, h.start) ?? []), [horizon, h.start]);
 
-  // Build fixed week day keys and pretty labels
-  const dayKeys = useMemo(() => {
-    return Array.from({ length: horizon }, (_, i) => ymd(addDays(WEEK_START, i)));
-  }, [horizon]);
+  // Day keys and pretty labels for the planning horizon
+  const dayKeys = useMemo(() => horizonDayKeys(h), [h]);
   const pretty = useMemo(() => dayKeys.map(d => shortLabel(new Date(`${d}T00:00:00`))), [dayKeys]);
 
   // Aggregate into the fixed keys so ordering and labels are stable
@@ -60,7 +55,7 @@ export default function DemandSummary() {
       </div>
 
       {/* Day labels under the bars */}
-      <div className="grid grid-cols-7 gap-1 mt-1 mb-3">
+      <div className="grid gap-1 mt-1 mb-3" style={{ gridTemplateColumns: `repeat(${horizon}, minmax(0, 1fr))` }}>
         {labels.map((txt, i) => (
           <div key={i} className="text-[10px] text-slate-400 text-center truncate" title={txt}>
             {txt}
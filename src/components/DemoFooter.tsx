@@ -1,13 +1,6 @@
 // src/components/DemoFooter.tsx
-import React from 'react';
+import type { PlanningHorizon } from '../data/planningHorizon';
 
-const WEEK_START = new Date('2025-08-22T00:00:00');
-
-function addDays(d: Date, n: number) {
-  const x = new Date(d);
-  x.setDate(x.getDate() + n);
-  return x;
-}
 function fmt(d: Date) {
   // e.g. "Fri, 22 Aug"
   return d.toLocaleDateString(undefined, {
@@ -17,15 +10,15 @@ function fmt(d: Date) {
   });
 }
 
-export default function DemoFooter() {
-  const start = WEEK_START;
-  const end = addDays(start, 6);
+export default function DemoFooter({ horizon }: { horizon: PlanningHorizon }) {
+  const start = horizon.start;
+  const end = new Date(+horizon.end - 86_400_000);
 
   return (
     <footer className="text-[11px] text-slate-400 mt-4">
       <div className="rounded-lg border border-slate-800 bg-slate-900/60 p-2">
         <div>
-          Demo window:&nbsp;
+          Planning window ({horizon.days} days):&nbsp;
           <span className="text-slate-300">{fmt(start)}</span>
           &nbsp;→&nbsp;
           <span className="text-slate-300">{fmt(end)}</span>
@@ -1,33 +1,193 @@
 // src/components/GanttWeek.tsx
-import React, { useMemo } from 'react';
-import type { Vehicle, WorkOrder, OpsTask } from '../types';
-import { WEEK_START as T0, getFailures } from '../data/adapter';
+import { useMemo, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import type { Vehicle, WorkOrder, OpsTask, Technician } from '../types';
+import { getFailures } from '../data/adapter';
+import { HORIZON_OPTIONS, horizonDates, horizonLabel } from '../data/planningHorizon';
+import type { PlanningHorizon, HorizonDays } from '../data/planningHorizon';
+import type { Mutation } from '../data/mutatePlan';
+import { computeClashes } from '../agents/scheduler';
+import { toLocalISO } from '../utils/time';
+import { isPaused, isTerminal } from '../data/woLifecycle';
+import { getResourceSnapshot } from '../data/resourceStore';
+import type { PartsReadiness } from '../data/inventoryStore';
+import { assignedTechIds, crewSize, findDoubleBookings } from '../data/crew';
+import type { ResourceLane } from '../data/workshop';
 
-const DAYS = 7;
+const SNAP_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DragState = {
+  kind: 'wo' | 'ops';
+  id: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  laneWidth: number;
+  start: number;           // original interval (ms)
+  end: number;
+  vehicleId: string;       // original row
+  dx: number;              // pointer offset (px)
+  targetVehicleId: string; // row under the pointer (WOs only; ops stay on their vehicle)
+};
+
+const snap = (ms: number) => Math.round(ms / SNAP_MS) * SNAP_MS;
 
 export default function GanttWeek({
   vehicles,
   workorders,
   opsTasks,
+  technicians: techniciansProp,
+  partsReadiness,
+  resourceLanes,
+  horizon,
   onTaskClick,
+  onMutate,
+  onShiftWeek,
+  onToday,
+  onHorizonDays,
 }: {
   vehicles: Vehicle[];
   workorders: WorkOrder[];
   opsTasks: OpsTask[];
+  /** Rows for the "by technician" view (default: the resource store roster) */
+  technicians?: Technician[];
+  /** Flags jobs whose parts won't be here by their start date */
+  partsReadiness?: Map<string, PartsReadiness>;
+  /** Bay / lift / tool occupancy rows under the plan (workshop.ts) */
+  resourceLanes?: ResourceLane[];
+  horizon: PlanningHorizon;
   onTaskClick?: (id: string) => void;
+  /** Drag/resize gestures, emitted as MOVE_WO / MOVE_OPS */
+  onMutate?: (m: Mutation) => void;
+  onShiftWeek?: (weeks: number) => void;
+  onToday?: () => void;
+  onHorizonDays?: (days: HorizonDays) => void;
 }) {
+  const T0 = horizon.start;
+  const DAYS = horizon.days;
+
   const last30ByVehicle = useMemo(() => {
     const m = new Map<string, number>();
     for (const f of getFailures()) m.set(f.vehicleId, (m.get(f.vehicleId) ?? 0) + 1);
     return m;
   }, []);
 
-  const days = Array.from({ length: DAYS }, (_, i) => {
-    const d = new Date(T0);
-    d.setDate(T0.getDate() + i);
-    return d;
+  const days = horizonDates(horizon);
+
+  const [groupBy, setGroupBy] = useState<'vehicle' | 'technician'>('vehicle');
+  const [showBays, setShowBays] = useState(true);
+  const technicians = techniciansProp ?? getResourceSnapshot().technicians;
+
+  // Technician view: who is on which job, and who is booked twice at once
+  const doubleBooked = useMemo(() => {
+    const byTech = new Map<string, Set<string>>();
+    for (const b of findDoubleBookings(workorders)) {
+      if (!byTech.has(b.technicianId)) byTech.set(b.technicianId, new Set());
+      b.woIds.forEach(id => byTech.get(b.technicianId)!.add(id));
+    }
+    return byTech;
+  }, [workorders]);
+  const unassigned = useMemo(
+    () => workorders.filter(w => w.start && w.end && !isTerminal(w.status) && assignedTechIds(w).length === 0),
+    [workorders]
+  );
+
+  /* ---------- drag & resize ---------- */
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  // Snapped interval + row the dragged bar would land on
+  const ghost = useMemo(() => {
+    if (!drag) return null;
+    const delta = (drag.dx / Math.max(1, drag.laneWidth)) * DAYS * DAY_MS;
+    if (drag.mode === 'resize') {
+      return { start: drag.start, end: Math.max(drag.start + SNAP_MS, snap(drag.end + delta)), vehicleId: drag.vehicleId };
+    }
+    const start = snap(drag.start + delta);
+    return { start, end: start + (drag.end - drag.start), vehicleId: drag.targetVehicleId };
+  }, [drag, DAYS]);
+
+  // Live clashes against the ghost position (only those involving the dragged bar)
+  const liveClashes = useMemo(() => {
+    if (!drag || !ghost) return null;
+    const place = <T extends { id: string; vehicleId: string }>(x: T): T =>
+      x.id === drag.id
+        ? { ...x, vehicleId: ghost.vehicleId, start: toLocalISO(new Date(ghost.start)), end: toLocalISO(new Date(ghost.end)) }
+        : x;
+    const wos = drag.kind === 'wo' ? workorders.map(place) : workorders;
+    const ops = drag.kind === 'ops' ? opsTasks.map(place) : opsTasks;
+    const hits = computeClashes(wos, ops).clashes.filter(c => c.woId === drag.id || c.opsId === drag.id);
+    return { count: hits.length, ids: new Set(hits.flatMap(c => [c.woId, c.opsId])) };
+  }, [drag, ghost, workorders, opsTasks]);
+
+  function beginDrag(e: ReactPointerEvent<HTMLDivElement>, kind: DragState['kind'], item: WorkOrder | OpsTask) {
+    if (e.button !== 0 || !onMutate || !item.start || !item.end) return;
+    const lane = e.currentTarget.parentElement;
+    if (!lane) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const resize = (e.target as HTMLElement).dataset.handle === 'resize';
+    setDrag({
+      kind,
+      id: item.id,
+      mode: resize ? 'resize' : 'move',
+      originX: e.clientX,
+      laneWidth: lane.getBoundingClientRect().width,
+      start: +new Date(item.start),
+      end: +new Date(item.end),
+      vehicleId: item.vehicleId,
+      dx: 0,
+      targetVehicleId: item.vehicleId,
+    });
+  }
+
+  function moveDrag(e: ReactPointerEvent<HTMLDivElement>) {
+    if (!drag) return;
+    let target = drag.targetVehicleId;
+    if (drag.kind === 'wo' && drag.mode === 'move') {
+      const row = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-vehicle-id]');
+      if (row?.dataset.vehicleId) target = row.dataset.vehicleId;
+    }
+    setDrag({ ...drag, dx: e.clientX - drag.originX, targetVehicleId: target });
+  }
+
+  function endDrag(e: ReactPointerEvent<HTMLDivElement>) {
+    if (!drag || !ghost) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    const d = drag;
+    setDrag(null);
+
+    const unchanged = ghost.start === d.start && ghost.end === d.end && ghost.vehicleId === d.vehicleId;
+    if (unchanged) {
+      // no real movement → treat as a click
+      if (d.kind === 'wo' && Math.abs(d.dx) < 4) onTaskClick?.(d.id);
+      return;
+    }
+    const hours = (ghost.end - ghost.start) / 3_600_000;
+    const start = toLocalISO(new Date(ghost.start));
+    onMutate?.(d.kind === 'wo'
+      ? { type: 'MOVE_WO', id: d.id, start, hours, ...(ghost.vehicleId !== d.vehicleId ? { vehicleId: ghost.vehicleId } : {}) }
+      : { type: 'MOVE_OPS', id: d.id, start, hours });
+  }
+
+  const dragHandlers = (kind: DragState['kind'], item: WorkOrder | OpsTask) => ({
+    onPointerDown: (e: ReactPointerEvent<HTMLDivElement>) => beginDrag(e, kind, item),
+    onPointerMove: moveDrag,
+    onPointerUp: endDrag,
+    onPointerCancel: () => setDrag(null),
   });
 
+  const partsLate = (w: WorkOrder) => {
+    const r = partsReadiness?.get(w.id);
+    return r && !r.onTime ? r : null;
+  };
+  const partsNote = (w: WorkOrder) => {
+    const r = partsLate(w);
+    return r ? `\nParts not here by start: ${r.short.map(x => `${x.partId} ×${x.qty} (ETA ${x.eta})`).join(', ')}` : '';
+  };
+
+  const fmtTime = (ms: number) =>
+    new Date(ms).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
   function pctLeftWidth(start: Date, end: Date) {
     const span = DAYS * 24 * 60 * 60 * 1000;
     const s0 = +T0;
@@ -41,8 +201,8 @@ export default function GanttWeek({
     if (!s || !e) return null;
     const ss = new Date(s), ee = new Date(e);
     if (isNaN(+ss) || isNaN(+ee)) return null;
-    const s0 = new Date(T0);
-    const e0 = new Date(T0); e0.setDate(T0.getDate() + DAYS);
+    const s0 = horizon.start;
+    const e0 = horizon.end;
     const s1 = new Date(Math.max(+ss, +s0));
     const e1 = new Date(Math.min(+ee, +e0));
     if (e1 <= s1) return null;
@@ -72,20 +232,70 @@ export default function GanttWeek({
     }
   };
 
+  const navBtn = 'px-2 py-1 rounded-md text-xs ring-1 ring-slate-700 bg-slate-800/60 text-slate-200 hover:bg-slate-800';
+
   return (
     <div className="rounded-xl border border-slate-800 overflow-hidden">
+      {/* Horizon navigation */}
+      <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-slate-900/80 border-b border-slate-800">
+        {drag && ghost ? (
+          <div className={`text-xs ${liveClashes?.count ? 'text-rose-300' : 'text-sky-300'}`}>
+            {drag.id}{ghost.vehicleId !== drag.vehicleId ? ` → ${ghost.vehicleId}` : ''} · {fmtTime(ghost.start)} – {fmtTime(ghost.end)}
+            {' '}({(ghost.end - ghost.start) / 3_600_000}h)
+            {liveClashes?.count ? ` · ${liveClashes.count} ops clash${liveClashes.count === 1 ? '' : 'es'}` : ' · no ops clash'}
+          </div>
+        ) : (
+          <div className="text-xs text-slate-300">{horizonLabel(horizon)}</div>
+        )}
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md ring-1 ring-slate-700 overflow-hidden text-xs">
+            {(['vehicle', 'technician'] as const).map(g => (
+              <button
+                key={g}
+                onClick={() => setGroupBy(g)}
+                className={`px-2 py-1 ${groupBy === g ? 'bg-sky-500/20 text-sky-200' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-800'}`}
+              >
+                By {g}
+              </button>
+            ))}
+          </div>
+          {!!resourceLanes?.length && (
+            <button
+              onClick={() => setShowBays(v => !v)}
+              className={`px-2 py-1 rounded-md text-xs ring-1 ring-slate-700 ${showBays ? 'bg-sky-500/20 text-sky-200' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-800'}`}
+            >
+              Bays &amp; tools
+            </button>
+          )}
+          <button className={navBtn} onClick={() => onShiftWeek?.(-1)}>◀ Prev week</button>
+          <button className={navBtn} onClick={() => onToday?.()}>Today</button>
+          <button className={navBtn} onClick={() => onShiftWeek?.(1)}>Next week ▶</button>
+          <select
+            value={horizon.days}
+            onChange={(e) => onHorizonDays?.(Number(e.target.value) as HorizonDays)}
+            className="bg-slate-950/60 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200"
+          >
+            {HORIZON_OPTIONS.map(n => <option key={n} value={n}>{n} days</option>)}
+          </select>
+        </div>
+      </div>
+
       {/* Header scale */}
       <div className={`${gridCols} bg-slate-900/60 border-b border-slate-800`}>
-        <div className="px-3 py-2 text-xs text-slate-400">Vehicle</div>
+        <div className="px-3 py-2 text-xs text-slate-400">{groupBy === 'vehicle' ? 'Vehicle' : 'Technician'}</div>
         <div className="relative h-9">
           <div className="absolute inset-0">
             {days.map((d, i) => (
               <div key={i}
                    className="absolute top-0 bottom-0 border-l border-slate-800/70 text-[10px] text-slate-300"
                    style={{ left: `${(i / DAYS) * 100}%`, width: `${(1 / DAYS) * 100}%` }}>
-                <div className="pl-1 pt-1 font-medium">
-                  {d.toLocaleDateString(undefined, { weekday: 'short' })}{' '}
-                  {d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                <div className="pl-1 pt-1 font-medium truncate" title={d.toDateString()}>
+                  {DAYS > 14
+                    ? d.getDate()
+                    : <>
+                        {d.toLocaleDateString(undefined, { weekday: 'short' })}{' '}
+                        {d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                      </>}
                 </div>
               </div>
             ))}
@@ -93,13 +303,80 @@ export default function GanttWeek({
         </div>
       </div>
 
-      {/* Rows */}
+      {/* Technician rows */}
+      {groupBy === 'technician' && (
+        <div className="divide-y divide-slate-800">
+          {[...technicians.map(t => ({ id: t.id, label: t.name, sub: t.skills.join(' · ') })),
+            ...(unassigned.length ? [{ id: '', label: 'Unassigned', sub: `${unassigned.length} jobs` }] : [])
+          ].map(row => {
+            const jobs = row.id ? workorders.filter(w => w.start && w.end && assignedTechIds(w).includes(row.id)) : unassigned;
+            const doubles = doubleBooked.get(row.id);
+            return (
+              <div key={row.id || 'unassigned'} className="grid grid-cols-[12rem_1fr] bg-slate-950/40">
+                <div className="px-3 py-2 flex flex-col justify-center">
+                  <div className="flex items-center gap-2">
+                    <div className="text-slate-200 text-sm font-semibold truncate">{row.label}</div>
+                    {doubles && (
+                      <span className="text-[10px] px-2 py-[1px] rounded-full bg-rose-900/40 text-rose-300 ring-1 ring-rose-700/40">
+                        double-booked
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-slate-400">{row.id ? `${row.id} · ` : ''}{row.sub}</div>
+                </div>
+                <div className="relative h-12">
+                  {jobs.map(w => {
+                    const iv = clampInterval(w.start, w.end);
+                    if (!iv) return null;
+                    const { left, width } = pctLeftWidth(iv.s, iv.e);
+                    const closed = isTerminal(w.status);
+                    const clash = !!doubles?.has(w.id);
+                    return (
+                      <div
+                        key={w.id}
+                        onClick={() => !closed && onTaskClick?.(w.id)}
+                        className={[
+                          'absolute top-3 h-6 rounded-md shadow-sm px-2 flex items-center cursor-pointer',
+                          woClass(w.priority, closed),
+                          clash ? 'ring-2 ring-rose-400 z-10' : '',
+                        ].join(' ')}
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                        title={`${w.id} — ${w.title} [${w.status}] on ${w.vehicleId}\n${iv.s.toLocaleString()} → ${iv.e.toLocaleString()}` +
+                          (crewSize(w) > 1 ? `\nCrew: ${assignedTechIds(w).join(', ') || '—'}` : '') +
+                          (clash ? '\nOverlaps another job for this technician' : '') +
+                          partsNote(w)}
+                      >
+                        <div className="truncate text-[11px] leading-none">
+                          {w.id} · {w.vehicleId}{crewSize(w) > 1 ? ` · crew of ${crewSize(w)}` : ''}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+          {!technicians.length && <div className="px-3 py-4 text-xs text-slate-400">No technicians on the roster.</div>}
+        </div>
+      )}
+
+      {/* Vehicle rows */}
+      {groupBy === 'vehicle' && (
       <div className="divide-y divide-slate-800">
         {vehicles.map((v) => {
           const failures = last30ByVehicle.get(v.id) ?? 0;
 
           return (
-            <div key={v.id} className="grid grid-cols-[12rem_1fr] bg-slate-950/40 relative">
+            <div
+              key={v.id}
+              data-vehicle-id={v.id}
+              className={[
+                'grid grid-cols-[12rem_1fr] relative',
+                drag?.kind === 'wo' && ghost?.vehicleId === v.id && ghost.vehicleId !== drag.vehicleId
+                  ? 'bg-sky-950/40'
+                  : 'bg-slate-950/40',
+              ].join(' ')}
+            >
               {/* Left: label */}
               <div className="px-3 py-2 flex items-center gap-2">
                 <div className="text-slate-200 text-sm font-semibold">{v.id}</div>
@@ -120,16 +397,25 @@ export default function GanttWeek({
                     const iv = clampInterval(t.start, t.end);
                     if (!iv) return null;
                     const { left, width } = pctLeftWidth(iv.s, iv.e);
+                    const dragging = drag?.kind === 'ops' && drag.id === t.id;
+                    const clashing = !!liveClashes?.ids.has(t.id) && !dragging;
                     return (
                       <div
                         key={t.id}
-                        className={`absolute top-1 h-5 rounded-md shadow-sm ${opsClass} px-2 flex items-center`}
+                        {...dragHandlers('ops', t)}
+                        className={[
+                          `absolute top-1 h-5 rounded-md shadow-sm ${opsClass} px-2 flex items-center select-none touch-none`,
+                          onMutate ? 'cursor-grab' : '',
+                          dragging ? 'opacity-30' : '',
+                          clashing ? 'ring-2 ring-rose-400' : '',
+                        ].join(' ')}
                         style={{ left: `${left}%`, width: `${width}%` }}
                         title={`OPS ${t.id} — ${t.title}\n${iv.s.toLocaleString()} → ${iv.e.toLocaleString()}`}
                       >
                         <div className="truncate text-[11px] leading-none">
                           OPS {t.id} · {t.title}
                         </div>
+                        {onMutate && <div data-handle="resize" className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize" />}
                       </div>
                     );
                   })}
@@ -141,29 +427,108 @@ export default function GanttWeek({
                     const iv = clampInterval(w.start, w.end);
                     if (!iv) return null;
                     const { left, width } = pctLeftWidth(iv.s, iv.e);
-                    const closed = w.status === 'Closed';
+                    const closed = isTerminal(w.status);
+                    const dragging = drag?.kind === 'wo' && drag.id === w.id;
+                    const clashing = !!liveClashes?.ids.has(w.id) && !dragging;
                     return (
                       <div
                         key={w.id}
-                        onClick={() => !closed && onTaskClick?.(w.id)}
+                        {...(closed ? {} : dragHandlers('wo', w))}
+                        onClick={() => !closed && !onMutate && onTaskClick?.(w.id)}
                         className={[
-                          'absolute top-8 h-6 rounded-md shadow-sm px-2 flex items-center cursor-pointer',
+                          'absolute top-8 h-6 rounded-md shadow-sm px-2 flex items-center cursor-pointer select-none touch-none',
                           woClass(w.priority, closed),
+                          isPaused(w.status) ? 'opacity-60 outline-dashed outline-1 outline-slate-200' : '',
+                          !closed && onMutate ? 'cursor-grab' : '',
+                          dragging ? 'opacity-30' : '',
+                          clashing ? 'ring-2 ring-rose-400' : '',
                         ].join(' ')}
                         style={{ left: `${left}%`, width: `${width}%` }}
-                        title={`${w.id} — ${w.title}\n${iv.s.toLocaleString()} → ${iv.e.toLocaleString()}`}
+                        title={`${w.id} — ${w.title} [${w.status}]\n${iv.s.toLocaleString()} → ${iv.e.toLocaleString()}${partsNote(w)}`}
                       >
                         <div className="truncate text-[11px] leading-none">
+                          {partsLate(w) && <span className="mr-1 text-amber-200">⚠ parts</span>}
                           {w.id} · {w.title}
                         </div>
+                        {!closed && onMutate && <div data-handle="resize" className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize" />}
                       </div>
                     );
                   })}
+
+                {/* Drag ghost (snapped to 15 min) */}
+                {drag && ghost && ghost.vehicleId === v.id && (() => {
+                  const iv = clampInterval(new Date(ghost.start), new Date(ghost.end));
+                  if (!iv) return null;
+                  const { left, width } = pctLeftWidth(iv.s, iv.e);
+                  return (
+                    <div
+                      className={[
+                        'absolute rounded-md px-2 flex items-center pointer-events-none z-10 shadow-lg ring-2',
+                        drag.kind === 'wo' ? 'top-8 h-6' : 'top-1 h-5',
+                        liveClashes?.count ? 'bg-rose-500/70 ring-rose-300' : 'bg-sky-500/70 ring-sky-200',
+                      ].join(' ')}
+                      style={{ left: `${left}%`, width: `${width}%` }}
+                    >
+                      <div className="truncate text-[11px] leading-none text-white">{drag.id}</div>
+                    </div>
+                  );
+                })()}
               </div>
             </div>
           );
         })}
       </div>
+      )}
+
+      {/* Bay, lift and tool occupancy: one sub-row per unit, overflow in red */}
+      {showBays && !!resourceLanes?.length && (
+        <div className="divide-y divide-slate-800 border-t-2 border-slate-700">
+          {resourceLanes.map(({ resource: r, bookings, peak }) => {
+            const over = peak > r.qty;
+            const rows = Math.max(1, r.qty, ...bookings.map(b => b.unit + 1));
+            return (
+              <div key={r.id} className="grid grid-cols-[12rem_1fr] bg-slate-900/40">
+                <div className="px-3 py-2 flex flex-col justify-center">
+                  <div className="flex items-center gap-2">
+                    <div className="text-slate-200 text-xs font-semibold truncate" title={r.name}>{r.name}</div>
+                    {over && (
+                      <span className="text-[10px] px-2 py-[1px] rounded-full bg-rose-900/40 text-rose-300 ring-1 ring-rose-700/40">
+                        {peak}/{r.qty}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-slate-400">
+                    {r.kind} · {r.depot ?? 'shared'} · {r.qty} available{r.subsystems?.length ? ` · ${r.subsystems.join(', ')}` : ''}
+                  </div>
+                </div>
+                <div className="relative" style={{ height: `${rows * 16 + 8}px` }}>
+                  {bookings.map(b => {
+                    const iv = clampInterval(b.start, b.end);
+                    if (!iv) return null;
+                    const { left, width } = pctLeftWidth(iv.s, iv.e);
+                    const overflow = b.unit >= r.qty;
+                    return (
+                      <div
+                        key={b.woId}
+                        onClick={() => onTaskClick?.(b.woId)}
+                        className={[
+                          'absolute h-3 rounded-sm px-1 flex items-center cursor-pointer',
+                          overflow ? 'bg-rose-600/85 ring-1 ring-rose-300 text-white' : 'bg-violet-600/70 hover:bg-violet-500 text-white',
+                        ].join(' ')}
+                        style={{ left: `${left}%`, width: `${width}%`, top: `${4 + b.unit * 16}px` }}
+                        title={`${r.name}: ${b.woId} on ${b.vehicleId}\n${iv.s.toLocaleString()} → ${iv.e.toLocaleString()}` +
+                          (overflow ? `\nOver capacity (${r.qty} available)` : '')}
+                      >
+                        <div className="truncate text-[9px] leading-none">{b.woId} · {b.vehicleId}</div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
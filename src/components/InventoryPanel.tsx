@@ -0,0 +1,64 @@
+// src/components/InventoryPanel.tsx
+import { useMemo } from 'react';
+import type { InventoryState } from '../data/inventoryStore';
+import { reservedByPart } from '../data/inventoryStore';
+
+export default function InventoryPanel({
+  inventory,
+  shortJobs = 0,
+}: {
+  inventory: InventoryState;
+  /** Scheduled jobs whose parts won't be here by their start date */
+  shortJobs?: number;
+}) {
+  const reserved = useMemo(() => reservedByPart(inventory), [inventory]);
+  const demand = useMemo(() => {
+    const m = new Map<string, number>();
+    for (const r of inventory.reservations) m.set(r.partId, (m.get(r.partId) ?? 0) + r.qty);
+    return m;
+  }, [inventory]);
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-3">
+      <details className="text-xs text-slate-300">
+        <summary className="cursor-pointer text-slate-100 text-sm font-semibold">
+          Parts inventory{' '}
+          <span className="text-xs font-normal text-slate-400">
+            ({inventory.items.length} parts, {inventory.reservations.length} reservations
+            {shortJobs > 0 && <span className="text-amber-300"> · {shortJobs} jobs waiting on parts</span>})
+          </span>
+        </summary>
+        <table className="mt-2 w-full text-left">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="py-1 pr-2 font-normal">Part</th>
+              <th className="py-1 pr-2 font-normal text-right">On hand</th>
+              <th className="py-1 pr-2 font-normal text-right">Reserved</th>
+              <th className="py-1 pr-2 font-normal text-right">Free</th>
+              <th className="py-1 pr-2 font-normal text-right">Short</th>
+              <th className="py-1 font-normal">Next delivery</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {inventory.items.map(i => {
+              const res = reserved.get(i.partId) ?? 0;
+              const short = Math.max(0, (demand.get(i.partId) ?? 0) - res);
+              return (
+                <tr key={i.partId}>
+                  <td className="py-1 pr-2">
+                    <span className="text-slate-200">{i.partId}</span> <span className="text-slate-400">{i.name}</span>
+                  </td>
+                  <td className="py-1 pr-2 text-right">{i.onHand}</td>
+                  <td className="py-1 pr-2 text-right">{res}</td>
+                  <td className="py-1 pr-2 text-right">{i.onHand - res}</td>
+                  <td className={`py-1 pr-2 text-right ${short ? 'text-amber-300' : ''}`}>{short || '—'}</td>
+                  <td className="py-1 text-slate-400">{i.eta ?? `${i.leadTimeDays}d lead`}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+}
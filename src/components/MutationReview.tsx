@@ -0,0 +1,109 @@
+// src/components/MutationReview.tsx
+import type { ChangeImpact, StagedChange } from '../data/changeReview';
+
+export default function MutationReview({
+  request,
+  changes,
+  selected,
+  impact,
+  errors,
+  onToggle,
+  onAcceptAll,
+  onAcceptSelected,
+  onReject,
+}: {
+  /** What the planner asked for */
+  request: string;
+  changes: StagedChange[];
+  selected: boolean[];
+  /** Effect of the ticked changes */
+  impact: ChangeImpact;
+  /** Why the last accept applied nothing */
+  errors?: string[];
+  onToggle: (index: number) => void;
+  onAcceptAll: () => void;
+  onAcceptSelected: () => void;
+  onReject: () => void;
+}) {
+  const ticked = selected.filter(Boolean).length;
+  const clashDelta = impact.clashesAfter - impact.clashesBefore;
+  // With everything ticked, the rejected selection is the whole batch
+  const allRejected = ticked === changes.length && !!impact.rejected.length;
+
+  return (
+    <div className="rounded-xl border border-sky-700 bg-sky-950/30 p-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-slate-100 text-sm font-semibold">
+            Agent changes to review — {ticked} of {changes.length} selected
+          </div>
+          <div className="text-xs text-slate-400 truncate" title={request}>“{request}”</div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={onAcceptAll}
+            disabled={allRejected}
+            className="px-3 py-1.5 rounded-md bg-emerald-600 hover:bg-emerald-500 text-white text-sm disabled:opacity-40"
+          >
+            Accept all
+          </button>
+          <button
+            onClick={onAcceptSelected}
+            disabled={!ticked || !!impact.rejected.length}
+            className="px-3 py-1.5 rounded-md bg-sky-700 hover:bg-sky-600 text-white text-sm disabled:opacity-40"
+          >
+            Accept selected
+          </button>
+          <button onClick={onReject} className="px-3 py-1.5 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-100 text-sm">Reject</button>
+        </div>
+      </div>
+
+      <ul className="mt-2 space-y-1">
+        {changes.map((c, i) => (
+          <li key={i}>
+            <label className="flex items-start gap-2 text-xs text-slate-200 cursor-pointer">
+              <input type="checkbox" className="mt-0.5 accent-sky-500" checked={!!selected[i]} onChange={() => onToggle(i)} />
+              <span>
+                {c.label}
+                {c.warning && (
+                  <span className="ml-2 rounded px-1.5 py-0.5 bg-amber-900/40 text-amber-200 ring-1 ring-amber-700/60">{c.warning}</span>
+                )}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-300">
+        <span>
+          WO/ops clashes: {impact.clashesBefore} → <span className={clashDelta > 0 ? 'text-rose-300' : clashDelta < 0 ? 'text-emerald-300' : 'text-slate-200'}>
+            {impact.clashesAfter}
+          </span>
+        </span>
+        {impact.utilisation.map(u => (
+          <span key={u.skill}>
+            {u.skill} utilisation: {u.beforePct}% → <span className={u.afterPct > 100 ? 'text-rose-300' : 'text-slate-200'}>{u.afterPct}%</span>
+          </span>
+        ))}
+      </div>
+
+      {!!errors?.length && (
+        <div className="mt-2 rounded-md border border-rose-700/50 bg-rose-900/20 px-2 py-1 text-xs text-rose-200">
+          <div className="font-medium">Nothing was applied:</div>
+          <ul className="list-disc ml-5">
+            {errors.map((e, i) => <li key={i}>{e}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {!errors?.length && !!impact.rejected.length && (
+        <div className="mt-2 rounded-md border border-rose-700/50 bg-rose-900/20 px-2 py-1 text-xs text-rose-200">
+          <div className="font-medium">This selection can't be applied as a whole:</div>
+          <ul className="list-disc ml-5">
+            {impact.rejected.map((r, i) => <li key={i}>{r}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
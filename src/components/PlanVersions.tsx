@@ -0,0 +1,107 @@
+// src/components/PlanVersions.tsx
+import { useState } from 'react';
+import type { PlanVersion } from '../data/planStore';
+
+const KIND_LABEL: Record<PlanVersion['kind'], string> = {
+  initial: 'Initial',
+  accepted: 'Accepted',
+  mutation: 'Change',
+  restore: 'Restore',
+  manual: 'Manual',
+};
+
+export default function PlanVersions({
+  versions,
+  currentId,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onRestore,
+  onRename,
+}: {
+  versions: PlanVersion[];
+  currentId: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (id: number) => void;
+  onRename: (id: number, name: string) => void;
+}) {
+  const [editing, setEditing] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const btn = 'px-2 py-1 rounded-md text-xs ring-1 ring-slate-700 bg-slate-800/60 text-slate-200 hover:bg-slate-800 disabled:opacity-40';
+  const current = versions.find(v => v.id === currentId);
+
+  const saveName = (id: number) => {
+    onRename(id, draft);
+    setEditing(null);
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <div className="text-slate-100 text-sm font-semibold">Plan versions</div>
+          <div className="text-xs text-slate-400">
+            Current: <span className="text-slate-200">v{currentId} · {current?.name}</span> — saved in this browser
+          </div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button className={btn} onClick={onUndo} disabled={!canUndo}>Undo</button>
+          <button className={btn} onClick={onRedo} disabled={!canRedo}>Redo</button>
+        </div>
+      </div>
+
+      <details className="mt-2 text-xs text-slate-300">
+        <summary className="cursor-pointer text-slate-200">History ({versions.length})</summary>
+        <ul className="mt-2 space-y-1 max-h-56 overflow-auto pr-1">
+          {[...versions].reverse().map(v => (
+            <li
+              key={v.id}
+              className={[
+                'flex items-center gap-2 rounded-md border px-2 py-1',
+                v.id === currentId ? 'border-sky-600 bg-sky-900/20' : 'border-slate-800 bg-slate-900/40',
+              ].join(' ')}
+            >
+              <span className="text-slate-500 w-8">v{v.id}</span>
+              <span className="text-[10px] px-1.5 rounded bg-slate-800 text-slate-300">{KIND_LABEL[v.kind]}</span>
+              {editing === v.id ? (
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveName(v.id);
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  onBlur={() => saveName(v.id)}
+                  className="flex-1 bg-slate-950/60 border border-slate-700 rounded px-1 text-slate-200 outline-none"
+                />
+              ) : (
+                <span
+                  className="flex-1 truncate cursor-text"
+                  title={[v.name, ...v.notes.slice(0, 5)].join('\n')}
+                  onDoubleClick={() => { setEditing(v.id); setDraft(v.name); }}
+                >
+                  {v.pinned ? '★ ' : ''}{v.name}
+                </span>
+              )}
+              <span className="text-slate-500">{new Date(v.when).toLocaleString()}</span>
+              <button
+                className="text-sky-400 hover:underline disabled:opacity-40 disabled:no-underline"
+                disabled={v.id === currentId}
+                onClick={() => onRestore(v.id)}
+              >
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="mt-1 text-[11px] text-slate-500">Double-click a name to rename and pin a version.</div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+// src/components/PurchaseOrderPanel.tsx
+import type { PoLine, PurchaseOrderDraft } from '../types';
+import { poTotal, poToCSV, poToJSON } from '../data/purchaseOrders';
+
+function download(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const input = 'bg-slate-950/60 border border-slate-700 rounded px-1 py-0.5 text-slate-200 outline-none';
+
+export default function PurchaseOrderPanel({
+  po,
+  onEditLine,
+  onRemoveLine,
+  onDraftShortfalls,
+  onDiscard,
+}: {
+  po: PurchaseOrderDraft | null;
+  onEditLine: (partId: string, patch: Partial<Pick<PoLine, 'qty' | 'supplier' | 'unitCost' | 'needBy'>>) => void;
+  onRemoveLine: (partId: string) => void;
+  /** Replace the draft with one covering current shortfalls */
+  onDraftShortfalls: () => void;
+  onDiscard: () => void;
+}) {
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-3">
+      <details className="text-xs text-slate-300" open={!!po}>
+        <summary className="cursor-pointer text-slate-100 text-sm font-semibold">
+          Purchase order draft{' '}
+          <span className="text-xs font-normal text-slate-400">
+            {po ? `(${po.id} · ${po.lines.length} lines · $${poTotal(po).toLocaleString()})` : '(none)'}
+          </span>
+        </summary>
+
+        <div className="mt-2 flex flex-wrap gap-2">
+          <button onClick={onDraftShortfalls} className="px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-100">
+            Draft from shortfalls
+          </button>
+          {po && (
+            <>
+              <button
+                onClick={() => download(`${po.id}.csv`, poToCSV(po), 'text/csv')}
+                disabled={!po.lines.length}
+                className="px-2 py-1 rounded-md bg-sky-700 hover:bg-sky-600 disabled:opacity-40 text-white"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => download(`${po.id}.json`, poToJSON(po), 'application/json')}
+                disabled={!po.lines.length}
+                className="px-2 py-1 rounded-md bg-sky-700 hover:bg-sky-600 disabled:opacity-40 text-white"
+              >
+                Export JSON
+              </button>
+              <button onClick={onDiscard} className="px-2 py-1 rounded-md bg-slate-800 hover:bg-slate-700 text-slate-300">
+                Discard
+              </button>
+            </>
+          )}
+        </div>
+
+        {po && (
+          <>
+            <table className="mt-2 w-full text-left">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2 font-normal">Part</th>
+                  <th className="py-1 pr-2 font-normal">Qty</th>
+                  <th className="py-1 pr-2 font-normal">Supplier</th>
+                  <th className="py-1 pr-2 font-normal">Unit $</th>
+                  <th className="py-1 pr-2 font-normal">Need by</th>
+                  <th className="py-1 pr-2 font-normal">Work orders</th>
+                  <th className="py-1 font-normal text-right">Line $</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {po.lines.map(l => (
+                  <tr key={l.partId}>
+                    <td className="py-1 pr-2">
+                      <span className="text-slate-200">{l.partId}</span> <span className="text-slate-400">{l.partName}</span>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input type="number" min={1} value={l.qty} className={`${input} w-14`}
+                        onChange={(e) => onEditLine(l.partId, { qty: Number(e.target.value) })} />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input value={l.supplier} className={`${input} w-32`}
+                        onChange={(e) => onEditLine(l.partId, { supplier: e.target.value })} />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input type="number" min={0} value={l.unitCost} className={`${input} w-20`}
+                        onChange={(e) => onEditLine(l.partId, { unitCost: Number(e.target.value) })} />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input type="date" value={l.needBy} className={input}
+                        onChange={(e) => e.target.value && onEditLine(l.partId, { needBy: e.target.value })} />
+                    </td>
+                    <td className="py-1 pr-2 text-slate-400 max-w-[12rem] truncate" title={l.woIds.join(', ')}>
+                      {l.woIds.join(', ') || '—'}
+                    </td>
+                    <td className="py-1 text-right">{(l.qty * l.unitCost).toLocaleString()}</td>
+                    <td className="py-1 pl-2 text-right">
+                      <button onClick={() => onRemoveLine(l.partId)} className="text-slate-500 hover:text-rose-300" title="Remove line">✕</button>
+                    </td>
+                  </tr>
+                ))}
+                {!po.lines.length && (
+                  <tr><td colSpan={8} className="py-2 text-slate-500">No lines — nothing to order.</td></tr>
+                )}
+              </tbody>
+            </table>
+            {!!po.notes?.length && (
+              <ul className="mt-2 list-disc ml-5 text-amber-200">
+                {po.notes.map((n, i) => <li key={i}>{n}</li>)}
+              </ul>
+            )}
+          </>
+        )}
+      </details>
+    </div>
+  );
+}
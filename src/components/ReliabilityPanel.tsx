@@ -0,0 +1,95 @@
+// src/components/ReliabilityPanel.tsx
+import { useState } from 'react';
+import type { ReliabilityReport, ReliabilityStats } from '../data/reliabilityAnalytics';
+
+const num = (x: number | null | undefined, digits = 1) => (x === null || x === undefined ? '—' : x.toFixed(digits));
+const pval = (p?: number) => (p === undefined ? '' : p < 0.001 ? ' (p<0.001)' : ` (p=${p.toFixed(3)})`);
+
+function Row({ s, label }: { s: ReliabilityStats; label: string }) {
+  return (
+    <tr className={s.increasing ? 'text-amber-200' : ''}>
+      <td className="py-1 pr-2">{label}</td>
+      <td className="py-1 pr-2 text-right">{s.failures}</td>
+      <td className="py-1 pr-2 text-right">{num(s.mtbfDays)}</td>
+      <td className="py-1 pr-2 text-right">{num(s.mttrHours)}</td>
+      <td className="py-1 pr-2 text-right">{s.weibull ? `${num(s.weibull.beta, 2)} / ${num(s.weibull.etaDays)}` : '—'}</td>
+      <td className="py-1 pr-2 text-right">{s.laplace ? num(s.laplace.statistic, 2) + pval(s.laplace.p) : '—'}</td>
+      <td className="py-1 pr-2 text-right">{s.crowAmsaa ? num(s.crowAmsaa.statistic, 2) + pval(s.crowAmsaa.p) : '—'}</td>
+      <td className="py-1 text-right">{s.increasing ? '▲' : ''}</td>
+    </tr>
+  );
+}
+
+export default function ReliabilityPanel({ report }: { report: ReliabilityReport }) {
+  const [bySubsystem, setBySubsystem] = useState(false);
+  const rows = bySubsystem ? report.subsystems : report.vehicles;
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-3">
+      <details className="text-xs text-slate-300">
+        <summary className="cursor-pointer text-slate-100 text-sm font-semibold">
+          Reliability analytics{' '}
+          <span className="text-xs font-normal text-slate-400">
+            ({report.windowStart} → {report.asOf} · fleet MTBF {num(report.fleet.mtbfDays)} d, MTTR {num(report.fleet.mttrHours)} h
+            {!!report.findings.length && <span className="text-amber-300"> · {report.findings.length} rising trends</span>})
+          </span>
+        </summary>
+
+        {!!report.findings.length && (
+          <ul className="mt-2 space-y-1">
+            {report.findings.map(f => (
+              <li key={`${f.vehicleId}|${f.subsystem ?? ''}`} className="rounded-md border border-amber-700/50 bg-amber-900/20 px-2 py-1 text-amber-200">
+                <span className="font-medium">{f.vehicleId}{f.subsystem ? ` · ${f.subsystem}` : ''}</span> — {f.text}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-3 flex items-center gap-2">
+          <span className="text-slate-400">Per</span>
+          {(['vehicle', 'subsystem'] as const).map(k => (
+            <button
+              key={k}
+              onClick={() => setBySubsystem(k === 'subsystem')}
+              className={`px-2 py-0.5 rounded-md ${bySubsystem === (k === 'subsystem') ? 'bg-sky-700 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+            >
+              {k}
+            </button>
+          ))}
+        </div>
+        <div className="mt-1 max-h-72 overflow-auto">
+          <table className="w-full text-left">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="py-1 pr-2 font-normal">{bySubsystem ? 'Vehicle · subsystem' : 'Vehicle'}</th>
+                <th className="py-1 pr-2 font-normal text-right">Failures</th>
+                <th className="py-1 pr-2 font-normal text-right">MTBF d</th>
+                <th className="py-1 pr-2 font-normal text-right">MTTR h</th>
+                <th className="py-1 pr-2 font-normal text-right" title="Weibull shape β / scale η (days between failures)">Weibull β / η</th>
+                <th className="py-1 pr-2 font-normal text-right" title="Laplace U > 1.645 ⇒ increasing at 95%">Laplace U</th>
+                <th className="py-1 pr-2 font-normal text-right" title="Crow-AMSAA β > 1 ⇒ failures accelerating">Crow-AMSAA β</th>
+                <th className="py-1 font-normal" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {rows.map(s => (
+                <Row key={`${s.vehicleId}|${s.subsystem ?? ''}`} s={s} label={s.subsystem ? `${s.vehicleId} · ${s.subsystem}` : s.vehicleId} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-3 text-slate-400">Failure modes (Pareto, fleet)</div>
+        <ul className="mt-1 space-y-0.5">
+          {report.pareto.filter(p => p.vital).map(p => (
+            <li key={p.mode} className="flex items-center gap-2">
+              <span className="w-44 truncate text-slate-200" title={p.mode}>{p.mode}</span>
+              <span className="h-1.5 rounded bg-sky-600" style={{ width: `${(p.count / report.pareto[0].count) * 8}rem` }} />
+              <span className="text-slate-400">{p.count} · {p.downtimeHours} h · {p.cumPct.toFixed(0)}%</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
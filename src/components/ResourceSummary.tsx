@@ -1,25 +1,65 @@
 // src/components/ResourceSummary.tsx
-import React, { useMemo } from 'react';
+import { useMemo, useSyncExternalStore } from 'react';
 import { getWorkOrders } from '../data/adapter';
-import { getResourceSnapshot } from '../data/resourceStore';
-import type { Skill, WorkOrder } from '../types';
+import { getResourceSnapshot, subscribeResources, absenceOn } from '../data/resourceStore';
+import { horizonDayKeys } from '../data/planningHorizon';
+import type { PlanningHorizon } from '../data/planningHorizon';
+import type { AvailabilitySlot, Skill, Vehicle, WorkOrder } from '../types';
+import { labourHoursBySkill } from '../data/crew';
 
 const SKILLS: Skill[] = ['Mechanic', 'AutoElec'];
-function ymd(d: Date) { return d.toISOString().slice(0, 10); }
+const TRAVEL_OPTIONS = [0.5, 1, 2];
+const SOURCE_CELL: Record<NonNullable<AvailabilitySlot['source']>, string> = {
+  roster: 'border-slate-700',
+  shift: 'border-slate-700 text-slate-400',
+  leave: 'border-amber-700/70 bg-amber-950/40',
+  holiday: 'border-violet-700/70 bg-violet-950/40',
+  manual: 'border-sky-600 bg-sky-950/40',
+};
+function ymd(d: Date) { const x = new Date(d.getTime() - d.getTimezoneOffset() * 60_000); return x.toISOString().slice(0, 10); }
 function atStartOfDay(d: Date) { const x = new Date(d); x.setHours(0,0,0,0); return x; }
 function hoursBetween(a: Date, b: Date) { return Math.max(0, (b.getTime() - a.getTime()) / 36e5); }
 
-export default function ResourceSummary({ version = 0 }: { version?: number }) {
-  const horizon = 7;
-
-  // Fixed static week starting 2025-08-22
-  const start = new Date('2025-08-22T00:00:00');
-  const days = useMemo(() => Array.from({ length: horizon }, (_, i) => {
-    const d = new Date(start); d.setDate(d.getDate() + i); return ymd(d);
-  }), [horizon]);
-
-  const { technicians, availability } = getResourceSnapshot();
-  const workorders: WorkOrder[] = useMemo(() => (getWorkOrders?.() ?? []), [version]);
+export default function ResourceSummary({
+  horizon: h,
+  workorders: planWorkorders,
+  vehicles = [],
+  depot = null,
+  crossDepotTravelHours = null,
+  onCrossDepotTravelHours,
+  onSetAvailability,
+}: {
+  horizon: PlanningHorizon;
+  /** Current plan; defaults to the loaded work orders */
+  workorders?: WorkOrder[];
+  /** Maps work orders to depots */
+  vehicles?: Vehicle[];
+  /** Limit to one depot's technicians (plus those without a depot) and vehicles */
+  depot?: string | null;
+  crossDepotTravelHours?: number | null;
+  onCrossDepotTravelHours?: (hours: number | null) => void;
+  /** Edit one person's hours on one day (goes through SET_AVAIL) */
+  onSetAvailability?: (technicianId: string, date: string, hours: number) => void;
+}) {
+  const horizon = h.days;
+  const start = h.start;
+  const days = useMemo(() => horizonDayKeys(h), [h]);
+
+  const snapshot = useSyncExternalStore(subscribeResources, getResourceSnapshot);
+  const technicians = useMemo(
+    () => snapshot.technicians.filter(t => !depot || !t.depot || t.depot === depot),
+    [snapshot.technicians, depot]
+  );
+  const availability = snapshot.availability;
+  const slotOf = useMemo(
+    () => new Map(availability.map(a => [`${a.technicianId}|${a.date}`, a])),
+    [availability]
+  );
+  const depotOf = useMemo(() => new Map(vehicles.map(v => [v.id, v.depot])), [vehicles]);
+  const workorders: WorkOrder[] = useMemo(
+    () => (planWorkorders ?? getWorkOrders?.() ?? []).filter(w => !depot || depotOf.get(w.vehicleId) === depot),
+    [planWorkorders, depot, depotOf]
+  );
 
   // Availability per day+skill
   const availByDaySkill = useMemo(() => {
@@ -31,12 +71,13 @@ export default function ResourceSummary({ version = 0 }: { version?: number }) {
 
     for (const slot of availability ?? []) {
       if (!map.has(slot.date)) continue;
-      const skills = techSkills.get(slot.technicianId) ?? (['Mechanic'] as Skill[]);
+      const skills = techSkills.get(slot.technicianId);
+      if (!skills) continue;
       const dayMap = map.get(slot.date)!;
       for (const s of skills) dayMap.set(s, (dayMap.get(s)! + Number(slot.hours ?? 0)));
     }
     return map;
-  }, [technicians, availability, days, version]);
+  }, [technicians, availability, days]);
 
   // Scheduled maintenance hours per day+skill
   const schedByDaySkill = useMemo(() => {
@@ -49,20 +90,18 @@ export default function ResourceSummary({ version = 0 }: { version?: number }) {
       const s = new Date(w.start), e = new Date(w.end);
       if (isNaN(s.getTime()) || isNaN(e.getTime())) continue;
 
-      const skills: Skill[] =
-        (w.requiredSkills && w.requiredSkills.length ? w.requiredSkills :
-          (w.subsystem === 'electrical' ? ['AutoElec'] : ['Mechanic'])) as Skill[];
-
       const day = ymd(atStartOfDay(s));
       if (!map.has(day)) continue;
 
+      // Every crew member books the full duration (2-person job = 2× the hours)
       const dur = w.hours ?? hoursBetween(s, e);
-      const per = dur / skills.length;
       const dayMap = map.get(day)!;
-      for (const k of skills) dayMap.set(k, (dayMap.get(k)! + per));
+      for (const [k, hrs] of labourHoursBySkill(w, dur)) {
+        if (dayMap.has(k)) dayMap.set(k, dayMap.get(k)! + hrs);
+      }
     }
     return map;
-  }, [workorders, days, version]);
+  }, [workorders, days]);
 
   const rows = useMemo(() => {
     return SKILLS.map((skill) => {
@@ -74,7 +113,7 @@ export default function ResourceSummary({ version = 0 }: { version?: number }) {
       const utilisationPct = availableHours > 0 ? Math.round((scheduledHours / availableHours) * 100) : 0;
       return { skill, availableHours: Math.round(availableHours), scheduledHours: Math.round(scheduledHours), utilisationPct };
     });
-  }, [days, availByDaySkill, schedByDaySkill, version]);
+  }, [days, availByDaySkill, schedByDaySkill]);
 
   // Tiny “today” bars
   const today = ymd(start);
@@ -88,7 +127,9 @@ export default function ResourceSummary({ version = 0 }: { version?: number }) {
   return (
     <div className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
       <div className="text-slate-100 text-sm font-semibold">Resource Utilisation</div>
-      <div className="text-xs text-slate-400 mb-3">Capacity vs scheduled maintenance (next {horizon} days)</div>
+      <div className="text-xs text-slate-400 mb-3">
+        Capacity vs scheduled maintenance (next {horizon} days){depot ? ` · ${depot}` : ' · all depots'}
+      </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
         {rows.map(({ skill, availableHours, scheduledHours, utilisationPct }) => (
@@ -115,6 +156,75 @@ export default function ResourceSummary({ version = 0 }: { version?: number }) {
         ))}
       </div>
 
+      {onCrossDepotTravelHours && (
+        <label className="mt-3 flex items-center gap-2 text-xs text-slate-400">
+          Cross-depot crews
+          <select
+            value={crossDepotTravelHours === null ? '' : String(crossDepotTravelHours)}
+            onChange={(e) => onCrossDepotTravelHours(e.target.value === '' ? null : Number(e.target.value))}
+            className="rounded-md bg-slate-800 border border-slate-700 px-1 py-0.5 text-slate-200"
+          >
+            <option value="">Not allowed</option>
+            {[...new Set([...TRAVEL_OPTIONS, ...(crossDepotTravelHours === null ? [] : [crossDepotTravelHours])])].map(h => (
+              <option key={h} value={h}>{h} h travel each way</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {onSetAvailability && (
+        <details className="mt-3 text-xs">
+          <summary className="cursor-pointer text-slate-300">Roster &amp; availability ({technicians.length} technicians)</summary>
+          <div className="mt-2 overflow-auto">
+            <table className="text-left">
+              <thead className="text-slate-400">
+                <tr>
+                  <th className="py-1 pr-2 font-normal">Technician</th>
+                  {days.map(d => (
+                    <th key={d} className="py-1 px-0.5 font-normal text-center">
+                      {new Date(`${d}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {technicians.map(t => (
+                  <tr key={t.id}>
+                    <td className="py-0.5 pr-2 whitespace-nowrap">
+                      <div className="text-slate-200">{t.name}</div>
+                      <div className="text-[10px] text-slate-500">
+                        {t.skills.join('/')}{t.depot ? ` · ${t.depot}` : ''}{t.shift ? ` · ${t.shift}` : ''}
+                      </div>
+                    </td>
+                    {days.map(d => {
+                      const slot = slotOf.get(`${t.id}|${d}`);
+                      const why = absenceOn(t.id, d);
+                      return (
+                        <td key={d} className="py-0.5 px-0.5">
+                          <input
+                            type="number"
+                            min={0}
+                            max={24}
+                            step={0.5}
+                            value={slot?.hours ?? 0}
+                            onChange={(e) => onSetAvailability(t.id, d, Number(e.target.value))}
+                            title={[`${slot?.hours ?? 0} h (${slot?.source ?? 'none'})`, why].filter(Boolean).join(' — ')}
+                            className={`w-11 rounded border bg-slate-900 px-1 py-0.5 text-right text-slate-200 ${SOURCE_CELL[slot?.source ?? 'shift']}`}
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-1 text-[10px] text-slate-500">
+              Blue = edited here · amber = leave · violet = public holiday · grey = from shift pattern
+            </div>
+          </div>
+        </details>
+      )}
+
       <div className="mt-3">
         <div className="text-xs text-slate-400 mb-1">Today</div>
         <div className="grid grid-cols-2 gap-2">
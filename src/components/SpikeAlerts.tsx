@@ -0,0 +1,49 @@
+// src/components/SpikeAlerts.tsx
+import type { WorkOrder } from '../types';
+import type { SpikeAlert } from '../data/failureSpikes';
+import { inspectionCampaign } from '../data/failureSpikes';
+
+export default function SpikeAlerts({
+  alerts,
+  workorders,
+  onCreateCampaign,
+}: {
+  alerts: SpikeAlert[];
+  /** Current plan, to tell which vehicles a campaign already covers */
+  workorders: WorkOrder[];
+  onCreateCampaign: (alert: SpikeAlert) => void;
+}) {
+  if (!alerts.length) return null;
+
+  return (
+    <div className="rounded-xl border border-rose-800/60 bg-rose-950/30 p-3">
+      <div className="text-slate-100 text-sm font-semibold">
+        Failure spikes <span className="text-xs font-normal text-slate-400">({alerts.length} fleet-wide alerts)</span>
+      </div>
+      <ul className="mt-2 space-y-2 text-xs">
+        {alerts.map(a => {
+          const pending = inspectionCampaign(a, workorders).length;
+          return (
+            <li key={a.id} className="flex items-start justify-between gap-3 rounded-md border border-slate-800 bg-slate-900/50 px-2 py-1.5">
+              <div className="min-w-0">
+                <div className="text-rose-200 font-medium">{a.text}</div>
+                <div className="text-slate-400">
+                  {a.vehicleIds.length} vehicles ({a.vehicleIds.join(', ')}) · {a.firstSeen} → {a.lastSeen} ·{' '}
+                  {a.p < 0.001 ? 'p<0.001' : `p=${a.p.toFixed(3)}`}
+                </div>
+              </div>
+              <button
+                onClick={() => onCreateCampaign(a)}
+                disabled={!pending}
+                className="shrink-0 px-2 py-1 rounded-md bg-sky-700 hover:bg-sky-600 disabled:bg-slate-800 disabled:text-slate-500 text-white"
+                title={pending ? `Raise ${pending} Inspection work orders` : 'Every affected vehicle already has an inspection from this campaign'}
+              >
+                {pending ? `Create inspection campaign (${pending})` : 'Campaign raised'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
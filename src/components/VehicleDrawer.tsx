@@ -0,0 +1,206 @@
+// src/components/VehicleDrawer.tsx
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import type { Vehicle, WorkOrder, OpsTask, FailureRecord } from '../types';
+import type { ConditionForecast } from '../data/conditionMonitor';
+import type { PmStatus } from '../data/pmEngine';
+import type { ReliabilityStats, ParetoRow, ReliabilityFinding } from '../data/reliabilityAnalytics';
+import type { SpikeAlert } from '../data/failureSpikes';
+import { isActive } from '../data/woLifecycle';
+import ConditionSparkline from './ConditionSparkline';
+
+const fmt = (iso?: string) => (iso ? new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '—');
+const num = (x: number | null | undefined, digits = 1) => (x === null || x === undefined ? '—' : x.toFixed(digits));
+
+function Section({ title, count, children, open = false }: { title: string; count?: number; children: ReactNode; open?: boolean }) {
+  return (
+    <details open={open} className="rounded-lg border border-slate-800 bg-slate-900/40 p-2">
+      <summary className="cursor-pointer text-slate-100 text-sm font-semibold">
+        {title}{count !== undefined && <span className="text-xs font-normal text-slate-400"> ({count})</span>}
+      </summary>
+      <div className="mt-2 text-xs text-slate-300">{children}</div>
+    </details>
+  );
+}
+
+function Fact({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <div className="text-[10px] uppercase tracking-wide text-slate-500">{label}</div>
+      <div className="text-slate-200">{value}</div>
+    </div>
+  );
+}
+
+export default function VehicleDrawer({
+  vehicle,
+  workorders,
+  opsTasks,
+  failures,
+  condition,
+  pm,
+  reliability,
+  pareto,
+  findings,
+  spikes,
+  asOf,
+  onClose,
+  onSelectWo,
+}: {
+  vehicle: Vehicle;
+  /** This vehicle's work orders in the current plan (or proposal) */
+  workorders: WorkOrder[];
+  /** This vehicle's ops commitments overlapping the horizon */
+  opsTasks: OpsTask[];
+  failures: FailureRecord[];
+  condition: ConditionForecast[];
+  pm: PmStatus[];
+  reliability?: ReliabilityStats;
+  pareto: ParetoRow[];
+  findings: ReliabilityFinding[];
+  spikes: SpikeAlert[];
+  /** Splits past from upcoming work */
+  asOf: Date;
+  onClose: () => void;
+  onSelectWo?: (id: string) => void;
+}) {
+  const [allFailures, setAllFailures] = useState(false);
+
+  const upcoming = workorders
+    .filter(w => isActive(w.status) && (!w.end || +new Date(w.end) >= +asOf))
+    .sort((a, b) => (a.start ?? '9').localeCompare(b.start ?? '9'));
+  const upcomingIds = new Set(upcoming.map(w => w.id));
+  const past = workorders
+    .filter(w => !upcomingIds.has(w.id))
+    .sort((a, b) => (b.start ?? '').localeCompare(a.start ?? ''));
+  const shownFailures = allFailures ? failures : failures.slice(0, 10);
+
+  // Everything that argues for taking the vehicle off the road, in one list
+  const signals: string[] = [
+    ...findings.map(f => `${f.subsystem ? `${f.subsystem}: ` : ''}${f.text}`),
+    ...condition
+      .filter(c => c.daysToFailure !== null && c.daysToFailure <= 60)
+      .map(c => `${c.subsystem} condition ${c.latest} (${c.band}) — failure limit in ~${c.daysToFailure} days (trend r² ${c.r2.toFixed(2)})`),
+    ...pm.filter(p => p.state === 'OVERDUE').map(p => `PM overdue: ${p.title} (due ${p.dueDate})`),
+    ...spikes.map(s => `Part of fleet spike: ${s.text}`),
+    ...upcoming
+      .filter(w => w.type === 'Corrective' && (w.priority === 'Critical' || w.priority === 'High'))
+      .map(w => `Open ${w.priority} corrective: ${w.id} ${w.title}`),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/40" onClick={onClose}>
+      <aside
+        className="h-full w-full max-w-xl overflow-auto border-l border-slate-800 bg-slate-950 p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="text-slate-100 text-lg font-semibold">{vehicle.id}</div>
+            <div className="text-xs text-slate-400">{vehicle.model ?? 'Prime Mover'}{vehicle.year ? ` • ${vehicle.year}` : ''}</div>
+          </div>
+          <button onClick={onClose} className="text-slate-300 hover:text-white text-sm">Close</button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 rounded-lg border border-slate-800 bg-slate-900/40 p-3 text-xs">
+          <Fact label="Status" value={vehicle.status} />
+          <Fact label="Criticality" value={vehicle.criticality ?? '—'} />
+          <Fact label="Depot" value={vehicle.depot ?? '—'} />
+          <Fact label="Odometer" value={vehicle.odometerKm !== undefined ? `${vehicle.odometerKm.toLocaleString()} km` : '—'} />
+          <Fact label="Engine hours" value={vehicle.engineHours !== undefined ? `${vehicle.engineHours.toLocaleString()} h` : '—'} />
+          <Fact label="Failures (window)" value={reliability ? `${reliability.failures} · MTBF ${num(reliability.mtbfDays)} d · MTTR ${num(reliability.mttrHours)} h` : '—'} />
+        </div>
+
+        <div className={`rounded-lg border p-3 text-xs ${signals.length ? 'border-rose-800/60 bg-rose-950/30 text-rose-200' : 'border-emerald-800/50 bg-emerald-950/20 text-emerald-200'}`}>
+          <div className="font-semibold">{signals.length ? `Risk signals (${signals.length})` : 'No risk signals'}</div>
+          {!!signals.length && (
+            <ul className="mt-1 list-disc ml-5 space-y-0.5">{signals.map((s, i) => <li key={i}>{s}</li>)}</ul>
+          )}
+        </div>
+
+        <Section title="Condition trends" count={condition.length} open>
+          <div className="space-y-1">
+            {condition.map(c => (
+              <div key={c.subsystem} className="flex items-center gap-2">
+                <span className="w-24 capitalize text-slate-200">{c.subsystem}</span>
+                <ConditionSparkline f={c} width={160} height={28} points={27} />
+                <span className="text-slate-400">
+                  {c.latest} ({c.band}) · {c.slopePerWeek.toFixed(1)}/wk
+                  {c.poorOn && ` · Poor ~${c.poorOn}`}
+                  {c.failureOn && ` · limit ~${c.failureOn}`}
+                </span>
+              </div>
+            ))}
+            {!condition.length && <div className="text-slate-500">No condition data.</div>}
+          </div>
+        </Section>
+
+        <Section title="Upcoming work" count={upcoming.length} open>
+          <ul className="space-y-1">
+            {upcoming.map(w => (
+              <li key={w.id}>
+                <button onClick={() => onSelectWo?.(w.id)} className="w-full text-left hover:text-sky-300">
+                  <span className="text-slate-200">{w.id}</span> {w.title} · <span className="text-slate-400">{w.status} · {w.priority} · {w.start ? fmt(w.start) : 'unscheduled'}</span>
+                </button>
+              </li>
+            ))}
+            {!upcoming.length && <li className="text-slate-500">Nothing planned.</li>}
+          </ul>
+        </Section>
+
+        <Section title="PM status" count={pm.length}>
+          <ul className="space-y-1">
+            {pm.map(p => (
+              <li key={p.pmId} className={p.state === 'OVERDUE' ? 'text-rose-300' : p.state === 'DUE' ? 'text-amber-300' : ''}>
+                {p.title} — {p.state} · due {p.dueDate}
+                {p.plannedWoId && <span className="text-slate-400"> · planned as {p.plannedWoId}</span>}
+              </li>
+            ))}
+            {!pm.length && <li className="text-slate-500">No PM tasks apply.</li>}
+          </ul>
+        </Section>
+
+        <Section title="Ops commitments this horizon" count={opsTasks.length}>
+          <ul className="space-y-1">
+            {opsTasks.map(t => (
+              <li key={t.id}><span className="text-slate-200">{t.id}</span> {t.title} · <span className="text-slate-400">{fmt(t.start)} → {fmt(t.end)}</span></li>
+            ))}
+            {!opsTasks.length && <li className="text-slate-500">No ops bookings.</li>}
+          </ul>
+        </Section>
+
+        <Section title="Failure history" count={failures.length}>
+          {!!pareto.length && (
+            <div className="mb-2 text-slate-400">
+              Top modes: {pareto.slice(0, 3).map(p => `${p.mode} ×${p.count}`).join(', ')}
+            </div>
+          )}
+          <ul className="space-y-0.5">
+            {shownFailures.map((f, i) => (
+              <li key={`${f.date}|${i}`}>
+                <span className="text-slate-400">{f.date.slice(0, 10)}</span> {f.subsystem} — {f.failureMode}
+                <span className="text-slate-500"> · {f.downtimeHours} h down{f.partId ? ` · ${f.partId}` : ''}</span>
+              </li>
+            ))}
+          </ul>
+          {failures.length > 10 && (
+            <button onClick={() => setAllFailures(v => !v)} className="mt-1 text-sky-300 hover:text-sky-200">
+              {allFailures ? 'Show latest 10' : `Show all ${failures.length}`}
+            </button>
+          )}
+        </Section>
+
+        <Section title="Past work orders" count={past.length}>
+          <ul className="space-y-1">
+            {past.map(w => (
+              <li key={w.id}>
+                <span className="text-slate-200">{w.id}</span> {w.title} · <span className="text-slate-400">{w.status} · {w.start ? fmt(w.start) : '—'}</span>
+              </li>
+            ))}
+            {!past.length && <li className="text-slate-500">No past work in the plan.</li>}
+          </ul>
+        </Section>
+      </aside>
+    </div>
+  );
+}
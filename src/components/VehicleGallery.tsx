@@ -42,7 +42,7 @@ export default function VehicleGallery({
                 statusBg(v),
                 active ? 'border-sky-500 ring-sky-700/40' : 'border-slate-800',
               ].join(' ')}
-              title={`${v.id} — ${v.status}`}
+              title={[`${v.id} — ${v.status}`, ...(v.statusReasons ?? [])].join('\n')}
             >
               <div className="flex items-start gap-2">
                 <div className={`h-2 w-2 rounded-full mt-1 ${statusDot(v)}`} />
@@ -1,15 +1,19 @@
 // src/components/WorkOrdersModal.tsx
 import React from 'react';
 import type { WorkOrder, Priority } from '../types';
+import { assignmentsOf, crewLabel, unfilledSeats } from '../data/crew';
+import type { PartsReadiness } from '../data/inventoryStore';
 
 export default function WorkOrdersModal({
   open,
   onClose,
   workorders,
+  partsReadiness,
 }: {
   open: boolean;
   onClose: () => void;
   workorders: WorkOrder[];
+  partsReadiness?: Map<string, PartsReadiness>;
 }) {
   if (!open) return null;
 
@@ -46,8 +50,32 @@ export default function WorkOrdersModal({
                 <div><span className="text-slate-500">Hours:</span> {w.hours ?? '—'}</div>
                 <div><span className="text-slate-500">Start:</span> {w.start ? new Date(w.start).toLocaleString() : '—'}</div>
                 <div><span className="text-slate-500">End:</span> {w.end ? new Date(w.end).toLocaleString() : '—'}</div>
-                <div><span className="text-slate-500">Tech:</span> {w.technicianId ?? '—'}</div>
+                <div><span className="text-slate-500">Crew:</span> {crewLabel(w)}</div>
               </div>
+              <div className="mt-1 text-xs text-slate-300">
+                <span className="text-slate-500">Assigned:</span>{' '}
+                {assignmentsOf(w).map(a => `${a.technicianId} (${a.skill})`).join(', ') || '—'}
+                {unfilledSeats(w).length > 0 && (
+                  <span className="ml-2 text-amber-300">needs {crewLabel({ crew: unfilledSeats(w) })}</span>
+                )}
+              </div>
+              {w.partLines?.length ? (() => {
+                const r = partsReadiness?.get(w.id);
+                return (
+                  <div className="mt-1 text-xs text-slate-300">
+                    <span className="text-slate-500">Parts:</span>{' '}
+                    {w.partLines.map(p => `${p.partId} ×${p.qty}`).join(', ')}
+                    {r && (
+                      <span className={`ml-2 ${r.ready ? 'text-emerald-300' : r.onTime ? 'text-sky-300' : 'text-amber-300'}`}>
+                        {r.ready ? 'in stock, reserved' :
+                          r.onTime ? `arriving by ${r.readyBy}` :
+                          `not here by start — ready ${r.readyBy}`}
+                        {r.unknown.length > 0 && ` · unknown: ${r.unknown.join(', ')}`}
+                      </span>
+                    )}
+                  </div>
+                );
+              })() : null}
               {w.description && <div className="mt-2 text-xs text-slate-300">{w.description}</div>}
             </div>
           ))}
@@ -1,14 +1,26 @@
 // src/data/adapter.d.ts
 import type {
   Vehicle, WorkOrder, Priority, WoType, DemandRecord,
-  Technician, AvailabilitySlot, OpsTask, FailureRecord, ConditionSnapshot
+  Technician, AvailabilitySlot, OpsTask, FailureRecord, ConditionSnapshot, PmTask,
+  LeaveRecord, PublicHoliday,
 } from '../types';
+import type { DataSource } from './dataSource';
+import type { ShiftDefinition } from './shiftCalendar';
+import type { WorkshopResource } from './workshop';
+
+export function loadData(source?: DataSource): Promise<void>;
+export function getDataSourceName(): string;
 
 export function getVehicles(count?: number): Vehicle[];
 export function getWorkOrders(): WorkOrder[];
-export function getOpsTasks(days?: number): OpsTask[];
+export function getOpsTasks(): OpsTask[];
 export function getFailures(): FailureRecord[];
-export function getDemandHistory(days?: number): DemandRecord[];
+export function getDemandHistory(days?: number, from?: Date): DemandRecord[];
+export function getCondition(): ConditionSnapshot[];
+export function getPmTasks(): PmTask[];
 export function getTechnicians(): Technician[];
 export function getAvailability(): AvailabilitySlot[];
-export function getConditions(): ConditionSnapshot[];
+export function getLeave(): LeaveRecord[];
+export function getHolidays(): PublicHoliday[];
+export function getShifts(): ShiftDefinition[];
+export function getWorkshop(): WorkshopResource[];
@@ -0,0 +1,120 @@
+// src/data/auditLog.ts
+// Who changed what, and when. Entries are derived from plan commits (see
+// planStore.commitPlan) so every path — Gantt, agents, scripts — is covered.
+import type { WorkOrder, OpsTask } from '../types';
+import { toLocalISO } from '../utils/time';
+
+export type AuditActor = {
+  kind: 'user' | 'agent' | 'script';
+  name: string;
+};
+
+export const PLANNER: AuditActor = { kind: 'user', name: 'Planner' };
+
+export type AuditEntry = {
+  id: number;
+  when: string; // ISO timestamp
+  actor: AuditActor;
+  entity: 'WO' | 'OPS' | 'PLAN';
+  entityId: string;
+  action: string;   // e.g. "status", "reschedule", "created", "undo"
+  from?: string;
+  to?: string;
+  /** Plan version the change landed in */
+  versionId?: number;
+};
+
+const STORAGE_KEY = 'saops.auditLog.v1';
+const MAX_ENTRIES = 2000;
+
+let entries: AuditEntry[] | null = null;
+const listeners = new Set<() => void>();
+
+function storage(): Storage | null {
+  try { return typeof localStorage === 'undefined' ? null : localStorage; } catch { return null; }
+}
+
+function ensure(): AuditEntry[] {
+  if (entries) return entries;
+  try {
+    const parsed = JSON.parse(storage()?.getItem(STORAGE_KEY) ?? '[]');
+    entries = Array.isArray(parsed) ? (parsed as AuditEntry[]) : [];
+  } catch {
+    entries = [];
+  }
+  return entries;
+}
+
+function persist() {
+  try { storage()?.setItem(STORAGE_KEY, JSON.stringify(entries)); } catch { /* keep in memory only */ }
+}
+
+export function getAuditLog(): AuditEntry[] {
+  return ensure();
+}
+
+export function subscribeAuditLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function recordAudit(items: Array<Omit<AuditEntry, 'id' | 'when'>>) {
+  if (!items.length) return;
+  const cur = ensure();
+  const when = new Date().toISOString();
+  let id = cur.length ? cur[cur.length - 1].id : 0;
+  entries = [...cur, ...items.map(e => ({ ...e, id: ++id, when }))].slice(-MAX_ENTRIES);
+  persist();
+  listeners.forEach(l => l());
+}
+
+export function clearAuditLog() {
+  entries = [];
+  storage()?.removeItem(STORAGE_KEY);
+  listeners.forEach(l => l());
+}
+
+/* ===================== plan diff ===================== */
+
+// Stored times mix UTC ("…Z") and local-ISO; compare and print them as instants
+const ms = (iso?: string) => (iso ? +new Date(iso) : NaN);
+const sameTime = (a?: string, b?: string) => (a ?? '') === (b ?? '') || ms(a) === ms(b);
+const local = (iso?: string) => (iso && !isNaN(ms(iso)) ? toLocalISO(new Date(iso)).slice(0, 16) : '');
+const slot = (x: { start?: string; end?: string }) =>
+  x.start ? `${local(x.start)} → ${local(x.end)}` : 'unscheduled';
+const moved = (a: { start?: string; end?: string }, b: { start?: string; end?: string }) =>
+  !sameTime(a.start, b.start) || !sameTime(a.end, b.end);
+
+/** Field-level changes between two plans, ready for recordAudit. */
+export function diffPlans(
+  prev: { workorders: WorkOrder[]; opsTasks: OpsTask[] },
+  next: { workorders: WorkOrder[]; opsTasks: OpsTask[] },
+  actor: AuditActor,
+  versionId?: number
+): Array<Omit<AuditEntry, 'id' | 'when'>> {
+  const out: Array<Omit<AuditEntry, 'id' | 'when'>> = [];
+  const push = (entity: AuditEntry['entity'], entityId: string, action: string, from?: string, to?: string) =>
+    out.push({ actor, entity, entityId, action, from, to, versionId });
+
+  const before = new Map(prev.workorders.map(w => [w.id, w]));
+  for (const w of next.workorders) {
+    const p = before.get(w.id);
+    if (!p) { push('WO', w.id, 'created', undefined, `${w.status} · ${slot(w)}`); continue; }
+    if (p.status !== w.status) push('WO', w.id, 'status', p.status, w.status);
+    if (moved(p, w)) push('WO', w.id, 'reschedule', slot(p), slot(w));
+    if (p.vehicleId !== w.vehicleId) push('WO', w.id, 'vehicle', p.vehicleId, w.vehicleId);
+    if ((p.technicianId ?? '') !== (w.technicianId ?? '')) push('WO', w.id, 'technician', p.technicianId ?? '—', w.technicianId ?? '—');
+  }
+  const nextWoIds = new Set(next.workorders.map(w => w.id));
+  for (const p of prev.workorders) if (!nextWoIds.has(p.id)) push('WO', p.id, 'removed', p.status);
+
+  const opsBefore = new Map(prev.opsTasks.map(t => [t.id, t]));
+  for (const t of next.opsTasks) {
+    const p = opsBefore.get(t.id);
+    if (!p) { push('OPS', t.id, 'created', undefined, slot(t)); continue; }
+    const ps = (p as { status?: string }).status, ns = (t as { status?: string }).status;
+    if (ps !== ns) push('OPS', t.id, 'status', ps ?? 'Active', ns ?? 'Active');
+    if (moved(p, t)) push('OPS', t.id, 'reschedule', slot(p), slot(t));
+  }
+  return out;
+}
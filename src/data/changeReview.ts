@@ -0,0 +1,153 @@
+// src/data/changeReview.ts
+// Agent mutations wait here for the planner instead of landing on the plan:
+// each change is described (with a warning when it cancels or closes High or
+// Critical work), and the ticked subset is dry-run to show what it does to
+// WO/ops clashes and to labour utilisation over the horizon.
+import type { OpsTask, Skill, WorkOrder, AvailabilitySlot } from '../types';
+import { applyMutationsToPlan } from './mutatePlan';
+import type { Mutation } from './mutatePlan';
+import { computeClashes } from '../agents/scheduler';
+import { labourHoursBySkill } from './crew';
+import { getResourceSnapshot } from './resourceStore';
+import { getHorizon, horizonDayKeys } from './planningHorizon';
+import type { PlanningHorizon } from './planningHorizon';
+import { isTerminal } from './woLifecycle';
+import { ymdLocal } from '../utils/time';
+
+export type StagedChange = {
+  mutation: Mutation;
+  label: string;
+  /** Why this one deserves a second look; risky changes start unticked */
+  warning?: string;
+};
+
+export type SkillUtilisation = { skill: Skill; beforePct: number; afterPct: number };
+
+export type ChangeImpact = {
+  clashesBefore: number;
+  clashesAfter: number;
+  utilisation: SkillUtilisation[];
+  /** Ticked changes that wouldn't apply on their own (e.g. they depend on an unticked one) */
+  rejected: string[];
+  workorders: WorkOrder[];
+  opsTasks: OpsTask[];
+  notes: string[];
+};
+
+/** The parts of the resource snapshot utilisation needs */
+type Roster = { technicians: Array<{ id: string; skills: Skill[] }>; availability: AvailabilitySlot[] };
+
+const SKILLS: Skill[] = ['Mechanic', 'AutoElec'];
+
+const when = (iso?: string) => {
+  const d = iso ? new Date(iso) : null;
+  return d && !isNaN(+d)
+    ? d.toLocaleString(undefined, { weekday: 'short', day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : '';
+};
+
+/** One line per change, in the planner's terms */
+export function stageChanges(mutations: Mutation[], workorders: WorkOrder[], opsTasks: OpsTask[]): StagedChange[] {
+  const wo = new Map(workorders.map(w => [w.id.toUpperCase(), w]));
+  const ops = new Map(opsTasks.map(t => [t.id.toUpperCase(), t]));
+  const woName = (id: string) => {
+    const w = wo.get(id.toUpperCase());
+    return w ? `${w.id} (${w.title}, ${w.vehicleId}, ${w.priority})` : id;
+  };
+  const highRisk = (id: string, what: string) => {
+    const p = wo.get(id.toUpperCase())?.priority;
+    return p === 'High' || p === 'Critical' ? `${what} ${p}-priority work` : undefined;
+  };
+
+  return mutations.map((m): StagedChange => {
+    switch (m.type) {
+      case 'MOVE_WO': {
+        const w = wo.get(m.id.toUpperCase());
+        const to = [m.vehicleId && m.vehicleId !== w?.vehicleId ? `to ${m.vehicleId}` : '', when(m.start ?? m.end)].filter(Boolean).join(', ');
+        return {
+          mutation: m,
+          label: `Move ${woName(m.id)}${to ? ` → ${to}` : ''}${m.hours ? ` (${m.hours}h)` : ''}` +
+            (w?.start ? ` — was ${when(w.start)}` : ' — currently unscheduled'),
+        };
+      }
+      case 'CANCEL_WO':
+        return { mutation: m, label: `Cancel ${woName(m.id)}`, warning: highRisk(m.id, 'Cancels') };
+      case 'SET_WO_STATUS': {
+        const closing = /^(cancel|close)/i.test(m.status);
+        return {
+          mutation: m,
+          label: `Set ${woName(m.id)} to ${m.status}${m.reason ? ` (${m.reason})` : ''}`,
+          warning: closing ? highRisk(m.id, m.status.toLowerCase().startsWith('cancel') ? 'Cancels' : 'Closes') : undefined,
+        };
+      }
+      case 'ASSIGN_CREW':
+        return { mutation: m, label: `Assign ${m.technicianIds.join(', ')} to ${woName(m.id)}` };
+      case 'MOVE_OPS': {
+        const t = ops.get(m.id.toUpperCase());
+        return { mutation: m, label: `Move ops ${m.id}${t ? ` (${t.vehicleId})` : ''} → ${when(m.start ?? m.end)}${m.hours ? ` (${m.hours}h)` : ''}` };
+      }
+      case 'CANCEL_OPS': {
+        const t = ops.get(m.id.toUpperCase());
+        return { mutation: m, label: `Cancel ops ${m.id}${t ? ` (${t.vehicleId})` : ''}`, warning: 'Cancels an operations task' };
+      }
+      case 'ADD_WO':
+        return {
+          mutation: m,
+          label: `Add ${m.priority ?? 'Medium'} job for ${m.vehicleId}: ${m.title}${m.hours ? ` (${m.hours}h)` : ''}${m.start ? ` at ${when(m.start)}` : ''}`,
+        };
+    }
+  });
+}
+
+/** Scheduled labour hours ÷ rostered hours per skill over the horizon */
+export function utilisationBySkill(
+  workorders: WorkOrder[],
+  h: PlanningHorizon = getHorizon(),
+  snapshot: Roster = getResourceSnapshot()
+): Map<Skill, number> {
+  const days = new Set(horizonDayKeys(h));
+  const available = new Map<Skill, number>(SKILLS.map(s => [s, 0]));
+  const scheduled = new Map<Skill, number>(SKILLS.map(s => [s, 0]));
+
+  const skillsOf = new Map(snapshot.technicians.map(t => [t.id, t.skills.length ? t.skills : ['Mechanic' as Skill]]));
+  for (const slot of snapshot.availability) {
+    if (!days.has(slot.date)) continue;
+    for (const s of skillsOf.get(slot.technicianId) ?? []) available.set(s, (available.get(s) ?? 0) + slot.hours);
+  }
+  for (const w of workorders) {
+    if (!(w.status === 'Scheduled' || w.status === 'In Progress') || !w.start || !w.end) continue;
+    const s = new Date(w.start), e = new Date(w.end);
+    if (isNaN(+s) || isNaN(+e) || !days.has(ymdLocal(s))) continue;
+    for (const [k, hrs] of labourHoursBySkill(w, w.hours ?? (+e - +s) / 3_600_000)) scheduled.set(k, (scheduled.get(k) ?? 0) + hrs);
+  }
+  return new Map(SKILLS.map(s => {
+    const a = available.get(s) ?? 0;
+    return [s, a > 0 ? Math.round((scheduled.get(s)! / a) * 100) : 0];
+  }));
+}
+
+/** What applying just the ticked changes would do to the plan */
+export function changeImpact(
+  changes: StagedChange[],
+  selected: boolean[],
+  workorders: WorkOrder[],
+  opsTasks: OpsTask[],
+  h: PlanningHorizon = getHorizon(),
+  roster: Roster = getResourceSnapshot()
+): ChangeImpact {
+  const after = applyMutationsToPlan(workorders, opsTasks, changes.filter((_, i) => selected[i]).map(c => c.mutation));
+  // CANCEL_OPS marks the task rather than removing it
+  const liveOps = (ts: OpsTask[]) => ts.filter(t => (t as OpsTask & { status?: string }).status !== 'Cancelled');
+  const liveWos = (ws: WorkOrder[]) => ws.filter(w => !isTerminal(w.status));
+  const before = utilisationBySkill(workorders, h, roster);
+  const next = utilisationBySkill(after.workorders, h, roster);
+  return {
+    clashesBefore: computeClashes(liveWos(workorders), liveOps(opsTasks)).total,
+    clashesAfter: computeClashes(liveWos(after.workorders), liveOps(after.opsTasks)).total,
+    utilisation: SKILLS.map(skill => ({ skill, beforePct: before.get(skill) ?? 0, afterPct: next.get(skill) ?? 0 })),
+    rejected: after.rejected,
+    workorders: after.workorders,
+    opsTasks: after.opsTasks,
+    notes: after.notes,
+  };
+}
@@ -0,0 +1,209 @@
+// src/data/conditionMonitor.ts
+// Condition-score trends per vehicle × subsystem: a least-squares line over the
+// recent snapshots, forecast crossings of the Watch/Poor bands and the
+// functional-failure limit, and threshold rules that raise work ahead of them.
+import type { ConditionBand, ConditionSnapshot, WorkOrder } from '../types';
+import type { AddWo } from './mutatePlan';
+import { getHorizon } from './planningHorizon';
+import { ymdLocal } from '../utils/time';
+
+const DAY_MS = 86_400_000;
+
+/** Band floors used by the condition feed: Good ≥ 80, Watch ≥ 60, Poor below */
+export const WATCH_BELOW = 80;
+export const POOR_BELOW = 60;
+/** Score treated as a functional failure */
+export const FAILURE_LIMIT = 20;
+
+export type ConditionForecast = {
+  vehicleId: string;
+  subsystem: string;
+  /** Snapshots up to asOf, oldest first */
+  series: Array<{ date: string; condition: number; band: ConditionBand }>;
+  latest: number;
+  band: ConditionBand;
+  /** Fitted slope, points per week (negative = degrading) */
+  slopePerWeek: number;
+  r2: number;
+  /** Declining faster than minDecline; stable series get no crossing forecasts */
+  degrading: boolean;
+  /** Fitted score at asOf */
+  fitted: number;
+  /** Forecast crossing dates (YYYY-MM-DD); null when not degrading or already past */
+  watchOn: string | null;
+  poorOn: string | null;
+  failureOn: string | null;
+  /** Days from asOf to the forecast functional failure */
+  daysToFailure: number | null;
+};
+
+export type ConditionRule = {
+  /** Raise when the score is forecast to drop below this within leadDays */
+  below: number;
+  leadDays: number;
+  /** Also raise while already below (and still degrading) */
+  whileBelow: boolean;
+  woType: 'Inspection' | 'Corrective';
+  priority: WorkOrder['priority'];
+  label: string;
+};
+
+/** Most severe first; a series triggers at most one rule */
+export const DEFAULT_CONDITION_RULES: ConditionRule[] = [
+  { below: POOR_BELOW, leadDays: 14, whileBelow: true, woType: 'Corrective', priority: 'High', label: 'Poor' },
+  { below: WATCH_BELOW, leadDays: 14, whileBelow: false, woType: 'Inspection', priority: 'Medium', label: 'Watch' },
+];
+
+export type ConditionOptions = {
+  asOf?: Date;
+  /** Snapshots used for the regression (weekly feed: 8 ≈ two months) */
+  fitPoints?: number;
+  /** Slopes flatter than this (points/week) count as stable */
+  minDecline?: number;
+};
+
+/** Ordinary least squares y = a + b·x */
+export function linearFit(xs: number[], ys: number[]): { intercept: number; slope: number; r2: number } {
+  const n = xs.length;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  const slope = sxx ? sxy / sxx : 0;
+  return { intercept: my - slope * mx, slope, r2: sxx && syy ? (sxy * sxy) / (sxx * syy) : 0 };
+}
+
+export function bandOf(score: number): ConditionBand {
+  return score >= WATCH_BELOW ? 'Good' : score >= POOR_BELOW ? 'Watch' : 'Poor';
+}
+
+function crossing(asOf: number, fitted: number, slopePerDay: number, limit: number): string | null {
+  if (fitted < limit || slopePerDay >= 0) return null;
+  return ymdLocal(new Date(asOf + ((fitted - limit) / -slopePerDay) * DAY_MS));
+}
+
+export function forecastCondition(snapshots: ConditionSnapshot[], opts: ConditionOptions = {}): ConditionForecast[] {
+  const asOf = +(opts.asOf ?? getHorizon().start);
+  const fitPoints = opts.fitPoints ?? 8;
+  const minDecline = opts.minDecline ?? 0.5;
+  const asOfDay = ymdLocal(new Date(asOf));
+
+  const groups = new Map<string, ConditionSnapshot[]>();
+  for (const s of snapshots) {
+    if (s.date > asOfDay) continue;
+    const key = `${s.vehicleId}|${s.subsystem}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(s);
+  }
+
+  const out: ConditionForecast[] = [];
+  for (const list of groups.values()) {
+    const sorted = [...list].sort((a, b) => a.date.localeCompare(b.date));
+    const recent = sorted.slice(-fitPoints);
+    const xs = recent.map(s => (+new Date(`${s.date}T00:00:00`) - asOf) / DAY_MS);
+    const fit = recent.length >= 3 ? linearFit(xs, recent.map(s => s.condition)) : { intercept: recent.at(-1)!.condition, slope: 0, r2: 0 };
+    const slopePerWeek = fit.slope * 7;
+    const degrading = slopePerWeek <= -minDecline;
+    const fitted = fit.intercept; // x = 0 is asOf
+    const slopePerDay = degrading ? fit.slope : 0;
+    const failureOn = crossing(asOf, fitted, slopePerDay, FAILURE_LIMIT);
+    const last = sorted[sorted.length - 1];
+    out.push({
+      vehicleId: last.vehicleId,
+      subsystem: last.subsystem,
+      series: sorted.map(s => ({ date: s.date, condition: s.condition, band: s.band })),
+      latest: last.condition,
+      band: last.band,
+      slopePerWeek,
+      r2: fit.r2,
+      degrading,
+      fitted,
+      watchOn: crossing(asOf, fitted, slopePerDay, WATCH_BELOW),
+      poorOn: crossing(asOf, fitted, slopePerDay, POOR_BELOW),
+      failureOn,
+      daysToFailure: failureOn ? Math.round((fitted - FAILURE_LIMIT) / -slopePerDay) : null,
+    });
+  }
+  return out.sort((a, b) => a.vehicleId.localeCompare(b.vehicleId) || a.subsystem.localeCompare(b.subsystem));
+}
+
+/* ===================== threshold rules ===================== */
+
+export type ConditionTrigger = {
+  forecast: ConditionForecast;
+  rule: ConditionRule;
+  /** Forecast crossing date, or null when already below */
+  crossesOn: string | null;
+  title: string;
+};
+
+export function conditionTitle(rule: ConditionRule, subsystem: string): string {
+  return rule.woType === 'Inspection'
+    ? `Inspect ${subsystem} — condition trending to ${rule.label}`
+    : `Repair ${subsystem} — condition ${rule.label}`;
+}
+
+/** Trend lines that explain less than this share of the variance are too noisy to act on */
+const MIN_R2 = 0.6;
+
+/**
+ * Series that hit a rule: forecast to cross its threshold within the lead
+ * time, or (for whileBelow rules) already below it and still degrading. Only
+ * clean, degrading trends count — a stable series sitting in a band is not news.
+ */
+export function conditionTriggers(
+  forecasts: ConditionForecast[],
+  rules: ConditionRule[] = DEFAULT_CONDITION_RULES,
+  asOf: Date = getHorizon().start
+): ConditionTrigger[] {
+  const out: ConditionTrigger[] = [];
+  for (const f of forecasts) {
+    if (!f.degrading || f.r2 < MIN_R2) continue;
+    for (const rule of rules) {
+      const crossesOn = crossing(+asOf, f.fitted, f.slopePerWeek / 7, rule.below);
+      const below = rule.whileBelow && f.fitted < rule.below;
+      const soon = !!crossesOn && (+new Date(`${crossesOn}T00:00:00`) - +asOf) / DAY_MS <= rule.leadDays;
+      if (!below && !soon) continue;
+      out.push({ forecast: f, rule, crossesOn, title: conditionTitle(rule, f.subsystem) });
+      break;
+    }
+  }
+  return out;
+}
+
+/** ADD_WO for each trigger whose vehicle has no work order with the same title yet (unless it was closed). */
+export function conditionWorkOrders(triggers: ConditionTrigger[], workorders: WorkOrder[]): AddWo[] {
+  const open = new Set(workorders.filter(w => w.status !== 'Closed').map(w => `${w.vehicleId}|${w.title}`));
+  return triggers
+    .filter(t => !open.has(`${t.forecast.vehicleId}|${t.title}`))
+    .map(t => ({
+      type: 'ADD_WO',
+      vehicleId: t.forecast.vehicleId,
+      title: t.title,
+      subsystem: t.forecast.subsystem,
+      hours: t.rule.woType === 'Inspection' ? 1 : 4,
+      priority: t.rule.priority,
+      requiredSkills: t.forecast.subsystem === 'electrical' ? ['AutoElec'] : ['Mechanic'],
+    }));
+}
+
+/** Clean degrading trends forecast to reach the failure limit within `withinDays`, soonest first. */
+export function predictedFailures(forecasts: ConditionForecast[], withinDays = 180): ConditionForecast[] {
+  return forecasts
+    .filter(f => f.degrading && f.r2 >= MIN_R2 && f.daysToFailure !== null && f.daysToFailure <= withinDays)
+    .sort((a, b) => a.daysToFailure! - b.daysToFailure!);
+}
+
+// Auto-raised this session; an undo shouldn't be fought by an immediate re-raise
+const raisedThisSession = new Set<string>();
+
+/** Drop work already auto-raised this session and remember the rest. */
+export function claimAutoRaise(muts: AddWo[]): AddWo[] {
+  const fresh = muts.filter(m => !raisedThisSession.has(`${m.vehicleId}|${m.title}`));
+  for (const m of fresh) raisedThisSession.add(`${m.vehicleId}|${m.title}`);
+  return fresh;
+}
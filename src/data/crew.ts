@@ -0,0 +1,82 @@
+// src/data/crew.ts
+// Crew requirements (skill × headcount) and who is assigned to each seat.
+import type { WorkOrder, Skill, CrewRequirement, CrewAssignment } from '../types';
+import { isTerminal } from './woLifecycle';
+
+/** Crew a work order needs; falls back to one person per required skill (default 1× Mechanic). */
+export function crewOf(w: Pick<WorkOrder, 'crew' | 'requiredSkills'>): CrewRequirement[] {
+  if (w.crew?.length) return w.crew.filter(c => c.count > 0);
+  return crewFromSkills(w.requiredSkills?.length ? w.requiredSkills : ['Mechanic']);
+}
+
+/** ['Mechanic', 'Mechanic', 'AutoElec'] → 2× Mechanic + 1× AutoElec */
+export function crewFromSkills(skills: Skill[]): CrewRequirement[] {
+  const counts = new Map<Skill, number>();
+  for (const s of skills) counts.set(s, (counts.get(s) ?? 0) + 1);
+  return [...counts].map(([skill, count]) => ({ skill, count }));
+}
+
+export function crewSize(w: Pick<WorkOrder, 'crew' | 'requiredSkills'>): number {
+  return crewOf(w).reduce((n, c) => n + c.count, 0);
+}
+
+/** "1× Mechanic + 1× AutoElec" */
+export function crewLabel(w: Pick<WorkOrder, 'crew' | 'requiredSkills'>): string {
+  return crewOf(w).map(c => `${c.count}× ${c.skill}`).join(' + ');
+}
+
+/** Assigned seats; older data with only technicianId counts as the first seat. */
+export function assignmentsOf(w: Pick<WorkOrder, 'crew' | 'requiredSkills' | 'assignments' | 'technicianId'>): CrewAssignment[] {
+  if (w.assignments?.length) return w.assignments;
+  if (w.technicianId) return [{ skill: crewOf(w)[0]?.skill ?? 'Mechanic', technicianId: w.technicianId }];
+  return [];
+}
+
+export function assignedTechIds(w: WorkOrder): string[] {
+  return [...new Set(assignmentsOf(w).map(a => a.technicianId))];
+}
+
+/** Seats still to fill, e.g. [{ skill: 'AutoElec', count: 1 }] */
+export function unfilledSeats(w: WorkOrder): CrewRequirement[] {
+  const filled = new Map<Skill, number>();
+  for (const a of assignmentsOf(w)) filled.set(a.skill, (filled.get(a.skill) ?? 0) + 1);
+  return crewOf(w)
+    .map(c => ({ skill: c.skill, count: c.count - (filled.get(c.skill) ?? 0) }))
+    .filter(c => c.count > 0);
+}
+
+/** Labour hours per skill (job duration × headcount). */
+export function labourHoursBySkill(w: WorkOrder, durationH: number): Map<Skill, number> {
+  const out = new Map<Skill, number>();
+  for (const c of crewOf(w)) out.set(c.skill, (out.get(c.skill) ?? 0) + durationH * c.count);
+  return out;
+}
+
+export type DoubleBooking = { technicianId: string; woIds: [string, string]; start: string; end: string };
+
+/** Technicians assigned to overlapping work orders. */
+export function findDoubleBookings(workorders: WorkOrder[]): DoubleBooking[] {
+  const byTech = new Map<string, WorkOrder[]>();
+  for (const w of workorders) {
+    if (!w.start || !w.end || isTerminal(w.status)) continue;
+    for (const id of assignedTechIds(w)) {
+      if (!byTech.has(id)) byTech.set(id, []);
+      byTech.get(id)!.push(w);
+    }
+  }
+  const out: DoubleBooking[] = [];
+  for (const [technicianId, list] of byTech) {
+    const sorted = [...list].sort((a, b) => +new Date(a.start!) - +new Date(b.start!));
+    for (let i = 0; i < sorted.length; i++) {
+      const a = sorted[i];
+      for (let j = i + 1; j < sorted.length; j++) {
+        const b = sorted[j];
+        if (+new Date(b.start!) >= +new Date(a.end!)) break;
+        const start = new Date(Math.max(+new Date(a.start!), +new Date(b.start!))).toISOString();
+        const end = new Date(Math.min(+new Date(a.end!), +new Date(b.end!))).toISOString();
+        out.push({ technicianId, woIds: [a.id, b.id], start, end });
+      }
+    }
+  }
+  return out;
+}
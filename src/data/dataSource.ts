@@ -0,0 +1,150 @@
+// src/data/dataSource.ts
+// Where raw records come from. Sources return un-normalized arrays; the adapter
+// maps them through normalize.ts, so a CMMS export only needs matching aliases.
+
+export type RawDataset = {
+  vehicles: unknown[];
+  workorders: unknown[];
+  opsTasks: unknown[];
+  failures: unknown[];
+  condition: unknown[];
+  pm: unknown[];
+  technicians: unknown[];
+  availability: unknown[];
+  leave: unknown[];
+  holidays: unknown[];
+  shifts: unknown[];
+  workshop: unknown[];
+};
+
+export type DataSource = {
+  name: string;
+  load: () => Promise<RawDataset>;
+};
+
+export const EMPTY_DATASET: RawDataset = {
+  vehicles: [], workorders: [], opsTasks: [], failures: [], condition: [], pm: [],
+  technicians: [], availability: [], leave: [], holidays: [], shifts: [], workshop: [],
+};
+
+/* ===================== JSON fixtures (demo fleet) ===================== */
+
+export function fixtureSource(): DataSource {
+  return {
+    name: 'fixtures',
+    load: async () => {
+      const [
+        vehicles, workorders, opsTasks, failures, condition, pm, technicians, availability, leave, holidays, shifts, workshop,
+      ] = await Promise.all([
+        import('./fake/vehicles.json'),
+        import('./fake/workorders.json'),
+        import('./fake/ops_tasks.json'),
+        import('./fake/failures.json'),
+        import('./fake/condition.json'),
+        import('./fake/pm.json'),
+        import('./fake/technicians.json'),
+        import('./fake/availability.json'),
+        import('./fake/leave.json'),
+        import('./fake/holidays.json'),
+        import('./fake/shifts.json'),
+        import('./fake/workshop.json'),
+      ]);
+      return {
+        vehicles: vehicles.default,
+        workorders: workorders.default,
+        opsTasks: opsTasks.default,
+        failures: failures.default,
+        condition: condition.default,
+        pm: pm.default,
+        technicians: technicians.default,
+        availability: availability.default,
+        leave: leave.default,
+        holidays: holidays.default,
+        shifts: shifts.default,
+        workshop: workshop.default,
+      };
+    },
+  };
+}
+
+/* ===================== REST / JSON over HTTP ===================== */
+
+export type HttpSourceOptions = {
+  baseUrl: string;
+  /** Path per collection, relative to baseUrl */
+  paths?: Partial<Record<keyof RawDataset, string>>;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+const DEFAULT_PATHS: Record<keyof RawDataset, string> = {
+  vehicles: 'vehicles',
+  workorders: 'workorders',
+  opsTasks: 'ops_tasks',
+  failures: 'failures',
+  condition: 'condition',
+  pm: 'pm',
+  technicians: 'technicians',
+  availability: 'availability',
+  leave: 'leave',
+  holidays: 'holidays',
+  shifts: 'shifts',
+  workshop: 'workshop',
+};
+
+const OPTIONAL: Array<keyof RawDataset> = ['pm', 'condition', 'availability', 'leave', 'holidays', 'shifts', 'workshop'];
+
+// Accept bare arrays or the usual envelopes ({ data }, { items }, { results })
+function unwrapArray(body: unknown, what: string): unknown[] {
+  if (Array.isArray(body)) return body;
+  if (body && typeof body === 'object') {
+    for (const k of ['data', 'items', 'results', 'records']) {
+      const v = (body as Record<string, unknown>)[k];
+      if (Array.isArray(v)) return v;
+    }
+  }
+  throw new Error(`${what}: expected a JSON array`);
+}
+
+export function httpSource(opts: HttpSourceOptions): DataSource {
+  const base = opts.baseUrl.replace(/\/+$/, '');
+  const paths = { ...DEFAULT_PATHS, ...opts.paths };
+
+  const fetchCollection = async (key: keyof RawDataset): Promise<unknown[]> => {
+    const url = `${base}/${paths[key].replace(/^\/+/, '')}`;
+    const ctrl = new AbortController();
+    const timer = setTimeout(() => ctrl.abort(), opts.timeoutMs ?? 15_000);
+    try {
+      const resp = await fetch(url, { headers: { Accept: 'application/json', ...opts.headers }, signal: ctrl.signal });
+      if (resp.status === 404 && OPTIONAL.includes(key)) return [];
+      if (!resp.ok) throw new Error(`${url}: HTTP ${resp.status}`);
+      return unwrapArray(await resp.json(), url);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    name: `http:${base}`,
+    load: async () => {
+      const keys = Object.keys(DEFAULT_PATHS) as Array<keyof RawDataset>;
+      const arrays = await Promise.all(keys.map(fetchCollection));
+      return Object.fromEntries(keys.map((k, i) => [k, arrays[i]])) as RawDataset;
+    },
+  };
+}
+
+/* ===================== configuration ===================== */
+
+/**
+ * VITE_DATA_SOURCE = "fixtures" (default) | "http"
+ * VITE_DATA_BASE_URL = base URL for the http source, e.g. http://localhost:4000/api
+ */
+export function dataSourceFromEnv(env: Record<string, string | undefined> = import.meta.env): DataSource {
+  const kind = String(env.VITE_DATA_SOURCE ?? 'fixtures').toLowerCase();
+  if (kind === 'http') {
+    if (!env.VITE_DATA_BASE_URL) throw new Error('VITE_DATA_SOURCE=http needs VITE_DATA_BASE_URL');
+    return httpSource({ baseUrl: env.VITE_DATA_BASE_URL });
+  }
+  return fixtureSource();
+}
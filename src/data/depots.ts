@@ -0,0 +1,56 @@
+// src/data/depots.ts
+// Depot as a planning dimension: which depot a vehicle or technician belongs to,
+// and whether (and at what travel cost) a technician may work at another depot.
+import type { Technician, Vehicle } from '../types';
+
+export type DepotSettings = {
+  /**
+   * Travel time each way when a technician works at another depot's vehicle.
+   * null = cross-depot assignment not allowed.
+   */
+  crossDepotTravelHours: number | null;
+};
+
+/** VITE_CROSS_DEPOT_TRAVEL_HOURS = hours each way (unset = same depot only) */
+function initial(env: Record<string, string | undefined> = import.meta.env ?? {}): DepotSettings {
+  const raw = env.VITE_CROSS_DEPOT_TRAVEL_HOURS;
+  const h = raw === undefined || raw === '' ? NaN : Number(raw);
+  return { crossDepotTravelHours: Number.isFinite(h) && h >= 0 ? h : null };
+}
+
+let settings: DepotSettings = initial();
+const listeners = new Set<() => void>();
+
+export function getDepotSettings(): DepotSettings {
+  return settings;
+}
+
+export function subscribeDepotSettings(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function setCrossDepotTravelHours(hours: number | null) {
+  settings = { ...settings, crossDepotTravelHours: hours === null || !Number.isFinite(hours) ? null : Math.max(0, hours) };
+  listeners.forEach(l => l());
+}
+
+/** Depots in use, sorted */
+export function listDepots(vehicles: Vehicle[], technicians: Technician[] = []): string[] {
+  return [...new Set([...vehicles, ...technicians].map(x => x.depot).filter((d): d is string => !!d))]
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Travel hours each way for `tech` to work on a vehicle at `depot`: 0 at home
+ * (technicians or vehicles without a depot match anywhere), the configured
+ * penalty elsewhere, null when cross-depot work isn't allowed.
+ */
+export function travelHoursFor(
+  tech: Pick<Technician, 'depot'>,
+  depot: string | undefined,
+  s: DepotSettings = settings
+): number | null {
+  if (!tech.depot || !depot || tech.depot === depot) return 0;
+  return s.crossDepotTravelHours;
+}
@@ -0,0 +1,163 @@
+// src/data/failureSpikes.ts
+// Fleet-wide failure spike detection: recent events per failure mode, subsystem
+// and part against the rate in the preceding baseline, with a Poisson tail test
+// so a couple of extra events on a rare mode don't page anyone.
+import type { FailureRecord, WorkOrder } from '../types';
+import type { AddWo } from './mutatePlan';
+import { getHorizon } from './planningHorizon';
+import { isActive } from './woLifecycle';
+import { ymdLocal } from '../utils/time';
+
+const DAY_MS = 86_400_000;
+
+export type SpikeDimension = 'mode' | 'subsystem' | 'part';
+
+export type SpikeAlert = {
+  /** Stable key, e.g. "mode:cooling:thermostat stuck" */
+  id: string;
+  dimension: SpikeDimension;
+  subsystem?: string;
+  mode?: string;
+  partId?: string;
+  /** "cooling: thermostat stuck" */
+  label: string;
+  events: number;
+  expected: number;
+  /** P(at least this many events | baseline rate) */
+  p: number;
+  windowDays: number;
+  vehicleIds: string[];
+  firstSeen: string; // YYYY-MM-DD
+  lastSeen: string;  // YYYY-MM-DD
+  /** "cooling: thermostat stuck — 11 events in 60d vs 2 expected" */
+  text: string;
+};
+
+export type SpikeOptions = {
+  asOf?: Date;
+  /** Recent window scanned for spikes */
+  windowDays?: number;
+  /** History before the window used for the expected rate */
+  baselineDays?: number;
+  minEvents?: number;
+  /** events ≥ minRatio × expected */
+  minRatio?: number;
+  maxP?: number;
+};
+
+/** "thermostat stuck open" and "… closed" are one problem; "(U0100)"-style codes are dropped. */
+export function modeFamily(mode: string): string {
+  return mode
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, '')
+    .replace(/\s+(open|closed|on|off)$/, '')
+    .replace(/\s+/g, ' ')
+    .trim() || 'unspecified';
+}
+
+/** P(X ≥ k) for X ~ Poisson(λ) */
+export function poissonUpperTail(k: number, lambda: number): number {
+  if (k <= 0) return 1;
+  let term = Math.exp(-lambda);
+  let below = term;
+  for (let i = 1; i < k; i++) { term *= lambda / i; below += term; }
+  return Math.max(0, 1 - below);
+}
+
+function fmtExpected(x: number) {
+  return x < 10 ? String(Math.round(x * 10) / 10) : String(Math.round(x));
+}
+
+/**
+ * Rolling-window spike scan. The baseline is the history before the window
+ * (clipped to where the data starts) scaled to the window length; an empty
+ * baseline counts as half an event so brand-new modes can still alert.
+ */
+export function detectFailureSpikes(failures: FailureRecord[], opts: SpikeOptions = {}): SpikeAlert[] {
+  const asOf = opts.asOf ?? getHorizon().start;
+  const windowDays = opts.windowDays ?? 60;
+  const baselineDays = opts.baselineDays ?? 180;
+  const minEvents = opts.minEvents ?? 5;
+  const minRatio = opts.minRatio ?? 2;
+  const maxP = opts.maxP ?? 0.01;
+
+  const end = +asOf;
+  const windowStart = end - windowDays * DAY_MS;
+  const dated = failures
+    .map(f => ({ f, t: +new Date(f.date) }))
+    .filter(x => isFinite(x.t) && x.t <= end);
+  if (!dated.length) return [];
+  const dataStart = Math.min(...dated.map(x => x.t));
+  const baseStart = Math.max(windowStart - baselineDays * DAY_MS, dataStart);
+  const baseDays = (windowStart - baseStart) / DAY_MS;
+  if (baseDays < windowDays / 2) return []; // not enough history to call anything a spike
+
+  type Bucket = { dimension: SpikeDimension; subsystem?: string; mode?: string; partId?: string; label: string; recent: typeof dated; base: number };
+  const buckets = new Map<string, Bucket>();
+  const add = (id: string, init: Omit<Bucket, 'recent' | 'base'>, x: (typeof dated)[number]) => {
+    if (!buckets.has(id)) buckets.set(id, { ...init, recent: [], base: 0 });
+    const b = buckets.get(id)!;
+    if (x.t > windowStart) b.recent.push(x);
+    else if (x.t >= baseStart) b.base += 1;
+  };
+
+  for (const x of dated) {
+    const subsystem = x.f.subsystem || 'unspecified';
+    const mode = modeFamily(x.f.failureMode);
+    add(`mode:${subsystem}:${mode}`, { dimension: 'mode', subsystem, mode, label: `${subsystem}: ${mode}` }, x);
+    add(`subsystem:${subsystem}`, { dimension: 'subsystem', subsystem, label: `${subsystem} (all modes)` }, x);
+    if (x.f.partId) add(`part:${x.f.partId}`, { dimension: 'part', subsystem, partId: x.f.partId, label: `part ${x.f.partId}` }, x);
+  }
+
+  const alerts: SpikeAlert[] = [];
+  for (const [id, b] of buckets) {
+    const events = b.recent.length;
+    const expected = (b.base * windowDays) / baseDays;
+    const p = poissonUpperTail(events, Math.max(expected, 0.5));
+    if (events < minEvents || events < minRatio * expected || p > maxP) continue;
+    const times = b.recent.map(x => x.t).sort((a, c) => a - c);
+    alerts.push({
+      id,
+      dimension: b.dimension,
+      subsystem: b.subsystem,
+      mode: b.mode,
+      partId: b.partId,
+      label: b.label,
+      events,
+      expected,
+      p,
+      windowDays,
+      vehicleIds: [...new Set(b.recent.map(x => x.f.vehicleId))].sort(),
+      firstSeen: ymdLocal(new Date(times[0])),
+      lastSeen: ymdLocal(new Date(times[times.length - 1])),
+      text: `${b.label} — ${events} events in ${windowDays}d vs ${fmtExpected(expected)} expected`,
+    });
+  }
+  return alerts.sort((a, c) => a.p - c.p || c.events - a.events);
+}
+
+/* ===================== inspection campaigns ===================== */
+
+export function campaignTitle(alert: SpikeAlert): string {
+  return `Inspection campaign: ${alert.label}`;
+}
+
+/**
+ * One unscheduled Inspection work order per affected vehicle. Vehicles that
+ * already have an active WO from the same campaign are skipped.
+ */
+export function inspectionCampaign(alert: SpikeAlert, workorders: WorkOrder[]): AddWo[] {
+  const title = campaignTitle(alert);
+  const covered = new Set(workorders.filter(w => w.title === title && isActive(w.status)).map(w => w.vehicleId));
+  return alert.vehicleIds
+    .filter(v => !covered.has(v))
+    .map(vehicleId => ({
+      type: 'ADD_WO',
+      vehicleId,
+      title,
+      subsystem: alert.subsystem,
+      hours: 1,
+      priority: 'High',
+      requiredSkills: alert.subsystem === 'electrical' ? ['AutoElec'] : ['Mechanic'],
+    }));
+}
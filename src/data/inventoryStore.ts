@@ -0,0 +1,271 @@
+// src/data/inventoryStore.ts
+// Parts on hand, inbound deliveries, and reservations against work orders.
+// Reservations are reconciled from the current plan (syncReservations), so
+// scheduling a job reserves its parts and cancelling it releases them — and
+// undo/restore stay consistent for free.
+import type { WorkOrder, PartRequirement } from '../types';
+import { getPartsCatalog, setPartsCatalog } from './partsCatalog';
+import type { CatalogPart } from './partsCatalog';
+import { getHorizon } from './planningHorizon';
+import { isActive } from './woLifecycle';
+import { ymdLocal } from '../utils/time';
+import type { AgentMutation } from './resourceStore';
+
+export type StockItem = {
+  partId: string;
+  name: string;
+  subsystem: string;
+  onHand: number;
+  leadTimeDays: number;
+  unitCost?: number;
+  supplier?: string;
+  /** Next inbound delivery (YYYY-MM-DD); shortfalls are covered from this date */
+  eta?: string;
+};
+
+export type Reservation = {
+  woId: string;
+  partId: string;
+  qty: number;
+  /** How much of qty is covered by stock on hand; the rest waits for a delivery */
+  fromStock: number;
+};
+
+export type InventoryState = {
+  items: StockItem[];
+  reservations: Reservation[];
+};
+
+export type PartsReadiness = {
+  /** Every part is on the shelf and reserved for this job */
+  ready: boolean;
+  /** Date all parts can be here (YYYY-MM-DD); null when they already are */
+  readyBy: string | null;
+  /** Parts are (or will be) here by the job's start date */
+  onTime: boolean;
+  short: Array<{ partId: string; qty: number; eta: string }>;
+  /** Part ids not in the inventory at all */
+  unknown: string[];
+};
+
+let state: InventoryState | null = null;
+let lastPlan: WorkOrder[] = [];
+const listeners = new Set<() => void>();
+
+function addDays(d: Date, n: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + n);
+  return x;
+}
+
+function fromCatalog(c: CatalogPart): StockItem {
+  const onHand = Math.max(0, Number(c.stock ?? 0));
+  const leadTimeDays = Math.max(0, Number(c.lead_time_days ?? 0));
+  return {
+    partId: c.part_id,
+    name: c.part_name,
+    subsystem: c.subsystem,
+    onHand,
+    leadTimeDays,
+    unitCost: c.unit_cost,
+    supplier: c.supplier,
+    // Out of stock with no delivery date: assume it was ordered at the start of the window
+    eta: c.eta ?? (onHand === 0 ? ymdLocal(addDays(getHorizon().start, leadTimeDays)) : undefined),
+  };
+}
+
+function toCatalog(i: StockItem): CatalogPart {
+  return {
+    part_id: i.partId,
+    part_name: i.name,
+    subsystem: i.subsystem,
+    lead_time_days: i.leadTimeDays,
+    unit_cost: i.unitCost,
+    supplier: i.supplier,
+    stock: i.onHand,
+    eta: i.eta,
+  };
+}
+
+function ensure(): InventoryState {
+  if (!state) state = { items: getPartsCatalog().map(fromCatalog), reservations: [] };
+  return state;
+}
+
+function set(items: StockItem[]) {
+  state = { items, reservations: allocate(lastPlan, items).reservations };
+  setPartsCatalog(items.map(toCatalog)); // keep the catalog (agents, PO drafts) in step
+  listeners.forEach(l => l());
+}
+
+export function getInventory(): InventoryState {
+  return ensure();
+}
+
+export function subscribeInventory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function getStockItem(partId: string): StockItem | undefined {
+  const key = partId.toUpperCase();
+  return ensure().items.find(i => i.partId.toUpperCase() === key);
+}
+
+/** When a shortfall of this part could arrive: the next delivery, else lead time from the window start. */
+export function etaFor(item: StockItem): string {
+  return item.eta ?? ymdLocal(addDays(getHorizon().start, item.leadTimeDays));
+}
+
+/* ===================== reservations ===================== */
+
+/** Scheduled (or started / paused) work with a slot holds its parts; Open and cancelled work does not. */
+export function holdsReservation(w: WorkOrder): boolean {
+  return isActive(w.status) && w.status !== 'Open' && !!w.start && !!w.partLines?.length;
+}
+
+function readinessOf(
+  w: WorkOrder,
+  lines: PartRequirement[],
+  take: (partId: string, qty: number) => number,
+  items: Map<string, StockItem>
+): { readiness: PartsReadiness; reservations: Reservation[] } {
+  const short: PartsReadiness['short'] = [];
+  const unknown: string[] = [];
+  const reservations: Reservation[] = [];
+  for (const line of lines) {
+    const item = items.get(line.partId.toUpperCase());
+    if (!item) { unknown.push(line.partId); continue; }
+    const fromStock = take(item.partId, line.qty);
+    reservations.push({ woId: w.id, partId: item.partId, qty: line.qty, fromStock });
+    if (fromStock < line.qty) short.push({ partId: item.partId, qty: line.qty - fromStock, eta: etaFor(item) });
+  }
+  const readyBy = short.length ? short.map(s => s.eta).sort().at(-1)! : null;
+  const startDay = w.start ? ymdLocal(new Date(w.start)) : null;
+  return {
+    readiness: {
+      ready: !short.length && !unknown.length,
+      readyBy,
+      onTime: !readyBy || !startDay || startDay >= readyBy,
+      short,
+      unknown,
+    },
+    reservations,
+  };
+}
+
+/**
+ * Allocate stock to the plan's scheduled work in start order (earliest job gets
+ * the shelf stock first). Unscheduled work is checked against what's left over.
+ */
+function allocate(plan: WorkOrder[], itemList: StockItem[]) {
+  const items = new Map(itemList.map(i => [i.partId.toUpperCase(), i]));
+  const free = new Map(itemList.map(i => [i.partId, i.onHand]));
+  const consume = (partId: string, qty: number) => {
+    const n = Math.min(qty, free.get(partId) ?? 0);
+    free.set(partId, (free.get(partId) ?? 0) - n);
+    return n;
+  };
+  const peek = (partId: string, qty: number) => Math.min(qty, free.get(partId) ?? 0);
+
+  const reservations: Reservation[] = [];
+  const readiness = new Map<string, PartsReadiness>();
+
+  const holding = plan
+    .filter(holdsReservation)
+    .sort((a, b) => +new Date(a.start!) - +new Date(b.start!) || a.id.localeCompare(b.id));
+  for (const w of holding) {
+    const r = readinessOf(w, w.partLines!, consume, items);
+    reservations.push(...r.reservations);
+    readiness.set(w.id, r.readiness);
+  }
+  for (const w of plan) {
+    if (readiness.has(w.id) || !w.partLines?.length || !isActive(w.status)) continue;
+    readiness.set(w.id, readinessOf(w, w.partLines, peek, items).readiness);
+  }
+  return { reservations, readiness };
+}
+
+/** Reconcile reservations with the current plan. Returns what changed, for notes. */
+export function syncReservations(plan: WorkOrder[]): { reserved: string[]; released: string[] } {
+  lastPlan = plan;
+  const cur = ensure();
+  const next = allocate(plan, cur.items).reservations;
+  const key = (r: Reservation) => `${r.woId}|${r.partId}`;
+  const before = new Set(cur.reservations.map(key));
+  const after = new Set(next.map(key));
+  const reserved = next.filter(r => !before.has(key(r))).map(r => `${r.partId} ×${r.qty} for ${r.woId}`);
+  const released = cur.reservations.filter(r => !after.has(key(r))).map(r => `${r.partId} ×${r.qty} from ${r.woId}`);
+  if (JSON.stringify(cur.reservations) !== JSON.stringify(next)) {
+    state = { ...cur, reservations: next };
+    listeners.forEach(l => l());
+  }
+  return { reserved, released };
+}
+
+/** Readiness flags for every active work order with parts in the given plan (current or preview). */
+export function partsReadinessFor(plan: WorkOrder[], s: InventoryState = ensure()): Map<string, PartsReadiness> {
+  return allocate(plan, s.items).readiness;
+}
+
+/** Reserved (from stock) quantity per part id. */
+export function reservedByPart(s: InventoryState = ensure()): Map<string, number> {
+  const m = new Map<string, number>();
+  for (const r of s.reservations) m.set(r.partId, (m.get(r.partId) ?? 0) + r.fromStock);
+  return m;
+}
+
+/* ===================== agent / UI mutations ===================== */
+
+/** ADD_PART (new part, or receive stock), SET_PART (edit fields), REMOVE_PART. Returns a note. */
+export function applyPartMutation(m: AgentMutation): string {
+  const op = String(m.op ?? '').toUpperCase();
+  const partId = String(m.partId ?? m.part_id ?? m.id ?? '').trim();
+  if (!partId) return `${op}: missing partId`;
+  const items = ensure().items;
+  const existing = getStockItem(partId);
+  const qty = Number(m.qty ?? m.quantity ?? 0);
+
+  if (op === 'ADD_PART') {
+    if (existing) {
+      // Receiving a delivery
+      const onHand = existing.onHand + Math.max(0, qty);
+      set(items.map(i => (i === existing ? { ...i, onHand, eta: m.eta ?? (qty > 0 ? undefined : i.eta) } : i)));
+      return `Received ${qty} × ${existing.partId} (${existing.name}); on hand ${onHand}.`;
+    }
+    const item: StockItem = {
+      partId,
+      name: String(m.name ?? m.partName ?? partId),
+      subsystem: String(m.subsystem ?? 'general'),
+      onHand: Math.max(0, Number(m.onHand ?? m.stock ?? qty) || 0),
+      leadTimeDays: Math.max(0, Number(m.leadTimeDays ?? m.lead_time_days ?? 0) || 0),
+      unitCost: m.unitCost ?? m.unit_cost,
+      supplier: m.supplier,
+      eta: m.eta,
+    };
+    set([...items, item]);
+    return `Added part ${item.partId} (${item.name}) with ${item.onHand} on hand.`;
+  }
+
+  if (op === 'SET_PART') {
+    if (!existing) return `SET_PART: ${partId} not in inventory`;
+    const next: StockItem = { ...existing };
+    if (m.onHand !== undefined || m.stock !== undefined) next.onHand = Math.max(0, Number(m.onHand ?? m.stock) || 0);
+    if (m.leadTimeDays !== undefined || m.lead_time_days !== undefined) next.leadTimeDays = Math.max(0, Number(m.leadTimeDays ?? m.lead_time_days) || 0);
+    if (m.eta !== undefined) next.eta = m.eta || undefined;
+    if (m.unitCost !== undefined) next.unitCost = Number(m.unitCost);
+    if (m.name) next.name = String(m.name);
+    if (m.supplier) next.supplier = String(m.supplier);
+    set(items.map(i => (i === existing ? next : i)));
+    return `Updated ${next.partId}: ${next.onHand} on hand` +
+      (next.eta ? `, next delivery ${next.eta}` : '') + `, lead time ${next.leadTimeDays}d.`;
+  }
+
+  if (op === 'REMOVE_PART') {
+    if (!existing) return `REMOVE_PART: ${partId} not in inventory`;
+    set(items.filter(i => i !== existing));
+    return `Removed part ${existing.partId} from inventory.`;
+  }
+
+  return `Unknown part mutation ${op} — ignored`;
+}
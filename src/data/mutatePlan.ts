@@ -1,10 +1,13 @@
 // src/data/mutatePlan.ts
-import type { WorkOrder, OpsTask, Skill } from '../types';
+import type { WorkOrder, OpsTask, Skill, CrewRequirement, CrewAssignment } from '../types';
+import { snapToHorizonYear } from './planningHorizon';
+import { isPaused, isTerminal, normalizeStatus, releaseSlot, statusAfterMove, transitionError } from './woLifecycle';
+import { crewLabel, crewOf } from './crew';
+import { getResourceSnapshot } from './resourceStore';
+import { normalizePartLines, normalizeParts } from './normalize';
 
 /* ===================== config & utils ===================== */
 
-const ANCHOR_YEAR = 2025; // keep all user-entered dates anchored to 2025
-
 const clampMin = (n: number, min: number) => (Number.isFinite(n) ? Math.max(n, min) : min);
 
 function cloneArr<T>(arr: T[]): T[] {
@@ -37,15 +40,8 @@ function durationHoursFrom(a?: string, b?: string, fallback?: number): number {
   return clampMin(fallback ?? 1, 0.25);
 }
 
-function snapYear(d: Date | null): Date | null {
-  if (!d) return d;
-  if (d.getFullYear() !== ANCHOR_YEAR) {
-    const nd = new Date(d);
-    nd.setFullYear(ANCHOR_YEAR);
-    return nd;
-  }
-  return d;
-}
+// keep user/LLM dates without a year in the planning horizon's year (e.g. "22 Aug" parsed as 2001)
+const snapYear = (s?: string) => snapToHorizonYear(parseISO(s), undefined, s);
 
 function nextWoId(existing: WorkOrder[]): string {
   const nums = existing
@@ -63,58 +59,41 @@ function isoLocal(d: Date): string {
 }
 
 
+// Map strings the LLM/user might say → the Skill union
 const SKILL_ALIASES: Record<string, Skill> = {
-  mechanic: 'Mechanical' as Skill,
-  mechanical: 'Mechanical' as Skill,
-  electrician: 'Electrical' as Skill,
-  electrical: 'Electrical' as Skill,
-  hydraulics: 'Hydraulic' as Skill,
-  hydraulic: 'Hydraulic' as Skill,
-  body: 'Body' as Skill,
-  panel: 'Body' as Skill,
-  tyre: 'Tyre' as Skill,
-  tires: 'Tyre' as Skill,
-  diagnostics: 'Diagnostics' as Skill,
-  diagnostic: 'Diagnostics' as Skill,
+  mechanic: 'Mechanic',
+  mechanical: 'Mechanic',
+  fitter: 'Mechanic',
+  diesel: 'Mechanic',
+  autoelec: 'AutoElec',
+  'auto elec': 'AutoElec',
+  'auto electrician': 'AutoElec',
+  'auto-electrician': 'AutoElec',
+  electrician: 'AutoElec',
+  electrical: 'AutoElec',
+  sparky: 'AutoElec',
 };
 
-function normalizeSkillLabel(label: unknown): Skill | null {
-  const raw = String(label ?? '').trim().toLowerCase();
-  if (!raw) return null;
-  if (SKILL_ALIASES[raw]) return SKILL_ALIASES[raw];
-  const tcase = raw.charAt(0).toUpperCase() + raw.slice(1).toLowerCase();
-  return (tcase as unknown) as Skill;
+export function normalizeSkill(s: unknown): Skill | null {
+  const raw = String(s ?? '').trim().toLowerCase();
+  return SKILL_ALIASES[raw] ?? null;
 }
 
-// Map strings the LLM/user might say → your Skill union
-function normalizeSkill(s: unknown): Skill | null {
-  const raw = String(s ?? '').trim().toLowerCase();
-  if (!raw) return null;
-  switch (raw) {
-    case 'mechanic':
-    case 'mechanical':  return 'Mechanical' as Skill;
-    case 'electrician':
-    case 'electrical':  return 'Electrical' as Skill;
-    case 'hydraulic':
-    case 'hydraulics':  return 'Hydraulic'  as Skill;
-    case 'body':
-    case 'panel':       return 'Body'       as Skill;
-    case 'tyre':
-    case 'tire':
-    case 'tires':       return 'Tyre'       as Skill;
-    case 'diagnostic':
-    case 'diagnostics': return 'Diagnostics' as Skill;
-    default:
-      // Title‑case fallback (helps if your Skill union already matches)
-      const t = raw.charAt(0).toUpperCase() + raw.slice(1);
-      return t as unknown as Skill;
+function normalizeCrewInput(input: unknown): CrewRequirement[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const out: CrewRequirement[] = [];
+  for (const c of input) {
+    const skill = normalizeSkill(typeof c === 'string' ? c : c?.skill);
+    const count = Math.max(1, Math.round(Number(typeof c === 'string' ? 1 : c?.count ?? 1)) || 1);
+    if (skill) out.push({ skill, count });
   }
+  return out.length ? out : undefined;
 }
 
 // Keep priority strictly in your Priority union
 function normalizePriority(p: unknown): WorkOrder['priority'] {
   const raw = String(p ?? '').toLowerCase();
-  if (raw === 'low' || raw === 'medium' || raw === 'high') {
+  if (raw === 'low' || raw === 'medium' || raw === 'high' || raw === 'critical') {
     return (raw.charAt(0).toUpperCase() + raw.slice(1)) as WorkOrder['priority'];
   }
   return 'Medium';
@@ -133,8 +112,10 @@ function inferWoType(title: unknown): WorkOrder['type'] {
 
 /* ===================== mutation contracts ===================== */
 
-export type MoveWo   = { type: 'MOVE_WO';   id: string; start?: string; end?: string; hours?: number; demandHours?: number };
+export type MoveWo   = { type: 'MOVE_WO';   id: string; start?: string; end?: string; hours?: number; demandHours?: number; vehicleId?: string };
 export type CancelWo = { type: 'CANCEL_WO'; id: string };
+/** Lifecycle change (On Hold, Awaiting Parts, In Progress, Closed, …); illegal transitions are rejected */
+export type SetWoStatus = { type: 'SET_WO_STATUS'; id: string; status: string; reason?: string };
 
 export type MoveOps   = { type: 'MOVE_OPS';   id: string; start?: string; end?: string; hours?: number; demandHours?: number };
 export type CancelOps = { type: 'CANCEL_OPS'; id: string };
@@ -143,24 +124,39 @@ export type AddWo = {
   type: 'ADD_WO';
   vehicleId: string;
   title: string;
+  subsystem?: string;
   hours?: number;
   demandHours?: number;        // tolerated for back-compat
   requiredSkills?: string[] | Skill[];
+  /** Headcount per skill when the job needs several people at once */
+  crew?: Array<{ skill: string; count?: number }>;
+  /** Parts to reserve once the job is scheduled */
+  parts?: Array<{ partId: string; qty?: number }>;
   priority?: WorkOrder['priority'];
   start?: string;
 };
 
-export type Mutation = MoveWo | CancelWo | MoveOps | CancelOps | AddWo;
+/** Name technicians for a job's crew seats (optionally changing the crew itself) */
+export type AssignCrew = {
+  type: 'ASSIGN_CREW';
+  id: string;
+  technicianIds: string[];
+  crew?: Array<{ skill: string; count?: number }>;
+};
+
+export type Mutation = MoveWo | CancelWo | SetWoStatus | AssignCrew | MoveOps | CancelOps | AddWo;
 
 export type ApplyResult = {
   workorders: WorkOrder[];
   opsTasks: OpsTask[];
   notes: string[];
+  /** Mutations that changed nothing (unknown id, illegal transition, …); also listed in notes */
+  rejected: string[];
 };
 
 /* ============== OPS id normalization (accept multiple styles) ============== */
 
-function buildOpsIndex(opsTasks: OpsTask[]) {
+export function buildOpsIndex(opsTasks: OpsTask[]) {
   const idx = new Map<string, number>();
   opsTasks.forEach((t, i) => {
     const id = String((t as any).id ?? '').toUpperCase();
@@ -181,7 +177,7 @@ function buildOpsIndex(opsTasks: OpsTask[]) {
   return idx;
 }
 
-function resolveOpsIndex(map: Map<string, number>, raw: string): number {
+export function resolveOpsIndex(map: Map<string, number>, raw: string): number {
   const key = raw.toUpperCase();
   if (map.has(key)) return map.get(key)!;
   const num = key.match(/(\d+)/)?.[1];
@@ -201,6 +197,8 @@ export function applyMutationsToPlan(
   const workorders = cloneArr(workordersIn);
   const opsTasks   = cloneArr(opsTasksIn);
   const notes: string[] = [];
+  const rejected: string[] = [];
+  const reject = (note: string) => { notes.push(note); rejected.push(note); };
 
   // accept both `op` or `type`, and `demandHours` as alias of `hours`
   const mutations: Array<Mutation & { op?: string }> = (mutationsIn ?? []).map((m: any) => {
@@ -215,57 +213,120 @@ export function applyMutationsToPlan(
   for (const m of mutations) {
     /* ------------ MOVE_WO ------------ */
     if (m.type === 'MOVE_WO') {
-      const w = woById.get(String((m as any).id).toUpperCase());
-      if (!w) { notes.push(`MOVE_WO: ${(m as any).id} not found`); continue; }
+      const w = woById.get(m.id.toUpperCase());
+      if (!w) { reject(`MOVE_WO: ${m.id} not found`); continue; }
 
-      let startD = snapYear(parseISO(m.start ?? (w.start as any)));
-      let endD   = snapYear(parseISO(m.end   ?? (w.end   as any)));
+      // When only one side is given, derive the other from the duration
+      let startD = snapYear(m.start ?? (m.end   ? undefined : w.start));
+      let endD   = snapYear(m.end   ?? (m.start ? undefined : w.end));
 
       const demand = clampMin(
         m.hours ?? (w as any).hours ?? durationHoursFrom(w.start as any, w.end as any, 2),
         0.25
       );
 
-      if (!startD && !endD) { notes.push(`MOVE_WO: ${(m as any).id} needs start or end`); continue; }
+      if (!startD && !endD) { reject(`MOVE_WO: ${m.id} needs start or end`); continue; }
       if (startD && !endD) endD = addHours(startD, demand);
       if (!startD && endD) startD = addHours(endD, -demand);
 
+      // In Progress / Awaiting Parts keep their status; Closed / Cancelled can't move
+      const nextStatus = statusAfterMove(w.status);
+      if (!nextStatus) { reject(`MOVE_WO: ${transitionError(w.id, w.status, 'Scheduled')}`); continue; }
+
       if (startD) w.start = toLocalISO(startD);
       if (endD)   w.end   = toLocalISO(endD);
-      (w as any).status = 'Scheduled';
+      w.status = nextStatus;
       (w as any).hours  = demand;
 
-      notes.push(`Moved ${w.id} — ${new Date(w.start as any).toLocaleString()} (${demand}h)`);
+      // Optional reassignment to another vehicle (e.g. dragged onto a different Gantt row)
+      const toVehicle = m.vehicleId ? String(m.vehicleId) : '';
+      const reassigned = toVehicle && toVehicle !== w.vehicleId;
+      if (reassigned) w.vehicleId = toVehicle;
+
+      notes.push(`Moved ${w.id}${reassigned ? ` to ${toVehicle}` : ''} — ${startD!.toLocaleString()} (${demand}h)`);
       continue;
     }
 
     /* ------------ CANCEL_WO ------------ */
     if (m.type === 'CANCEL_WO') {
-      const w = woById.get(String((m as any).id).toUpperCase());
-      if (!w) { notes.push(`CANCEL_WO: ${(m as any).id} not found`); continue; }
-      (w as any).status = 'Cancelled';
-      (w as any).start  = undefined;
-      (w as any).end    = undefined;
+      const w = woById.get(m.id.toUpperCase());
+      if (!w) { reject(`CANCEL_WO: ${m.id} not found`); continue; }
+      const err = transitionError(w.id, w.status, 'Cancelled');
+      if (err) { reject(`CANCEL_WO: ${err}`); continue; }
+      w.status = 'Cancelled';
+      releaseSlot(w);
       notes.push(`Cancelled ${w.id}`);
       continue;
     }
 
+    /* ------------ SET_WO_STATUS ------------ */
+    if (m.type === 'SET_WO_STATUS') {
+      const w = woById.get(m.id.toUpperCase());
+      if (!w) { reject(`SET_WO_STATUS: ${m.id} not found`); continue; }
+      const to = normalizeStatus(m.status);
+      if (!to) { reject(`SET_WO_STATUS: unknown status "${m.status}" for ${w.id}`); continue; }
+      const err = transitionError(w.id, w.status, to);
+      if (err) { reject(`SET_WO_STATUS: ${err}`); continue; }
+      const from = w.status;
+      w.status = to;
+      // Back to the backlog, paused or cancelled: release the slot and the crew
+      if (to === 'Open' || to === 'Cancelled' || isPaused(to)) releaseSlot(w);
+      notes.push(`${w.id}: ${from} → ${to}${m.reason ? ` (${m.reason})` : ''}`);
+      continue;
+    }
+
+    /* ------------ ASSIGN_CREW ------------ */
+    if (m.type === 'ASSIGN_CREW') {
+      const w = woById.get(m.id.toUpperCase());
+      if (!w) { reject(`ASSIGN_CREW: ${m.id} not found`); continue; }
+      if (isTerminal(w.status)) { reject(`ASSIGN_CREW: ${w.id} is ${w.status}`); continue; }
+
+      const crew = normalizeCrewInput(m.crew);
+      if (crew) { w.crew = crew; w.requiredSkills = [...new Set(crew.map(c => c.skill))]; }
+
+      // Fill seats in order with the named technicians that hold the skill
+      const roster = new Map(getResourceSnapshot().technicians.map(t => [t.id.toUpperCase(), t]));
+      const open = crewOf(w).flatMap(c => Array.from({ length: c.count }, () => c.skill));
+      const assignments: CrewAssignment[] = [];
+      const problems: string[] = [];
+      for (const raw of Array.isArray(m.technicianIds) ? m.technicianIds : []) {
+        const tech = roster.get(String(raw).toUpperCase());
+        if (!tech) { problems.push(`${raw} is not on the roster`); continue; }
+        if (assignments.some(a => a.technicianId === tech.id)) continue;
+        const seat = open.findIndex(k => tech.skills.includes(k));
+        if (seat < 0) { problems.push(`${tech.name}: no open ${tech.skills.join('/')} seat left`); continue; }
+        assignments.push({ skill: open[seat], technicianId: tech.id });
+        open.splice(seat, 1);
+      }
+      if (!assignments.length) { reject(`ASSIGN_CREW: nothing assigned to ${w.id}${problems.length ? ` — ${problems.join('; ')}` : ''}`); continue; }
+
+      w.assignments = assignments;
+      w.technicianId = assignments[0].technicianId;
+      notes.push(
+        `Crew for ${w.id}: ${assignments.map(a => `${a.technicianId} (${a.skill})`).join(', ')}` +
+        (open.length ? ` — still needs ${crewLabel({ requiredSkills: open })}` : '') +
+        (problems.length ? ` — skipped: ${problems.join('; ')}` : '')
+      );
+      continue;
+    }
+
     /* ------------ MOVE_OPS ------------ */
     if (m.type === 'MOVE_OPS') {
-      const idx = resolveOpsIndex(opsIdx, String((m as any).id));
-      if (idx < 0) { notes.push(`MOVE_OPS: ${(m as any).id} not found`); continue; }
+      const idx = resolveOpsIndex(opsIdx, m.id);
+      if (idx < 0) { reject(`MOVE_OPS: ${m.id} not found`); continue; }
 
       const t = opsTasks[idx];
 
-      let startD = snapYear(parseISO(m.start ?? (t.start as any)));
-      let endD   = snapYear(parseISO(m.end   ?? (t.end   as any)));
+      // When only one side is given, derive the other from the duration
+      let startD = snapYear(m.start ?? (m.end   ? undefined : t.start));
+      let endD   = snapYear(m.end   ?? (m.start ? undefined : t.end));
 
       const demand = clampMin(
         m.hours ?? (t as any).hours ?? durationHoursFrom(t.start as any, t.end as any, 4),
         0.25
       );
 
-      if (!startD && !endD) { notes.push(`MOVE_OPS: ${(m as any).id} needs start or end`); continue; }
+      if (!startD && !endD) { reject(`MOVE_OPS: ${m.id} needs start or end`); continue; }
       if (startD && !endD) endD = addHours(startD, demand);
       if (!startD && endD) startD = addHours(endD, -demand);
 
@@ -279,8 +340,8 @@ export function applyMutationsToPlan(
 
     /* ------------ CANCEL_OPS ------------ */
     if (m.type === 'CANCEL_OPS') {
-      const idx = resolveOpsIndex(opsIdx, String((m as any).id));
-      if (idx < 0) { notes.push(`CANCEL_OPS: ${(m as any).id} not found`); continue; }
+      const idx = resolveOpsIndex(opsIdx, m.id);
+      if (idx < 0) { reject(`CANCEL_OPS: ${m.id} not found`); continue; }
       const t = opsTasks[idx];
       (t as any).status = 'Cancelled';
       notes.push(`Cancelled ${t.id}`);
@@ -295,28 +356,35 @@ if (m.type === 'ADD_WO') {
   const demand = clampMin((m.hours ?? m.demandHours ?? 1), 0.25);
 
   // parse start -> compute end
-  const startD = parseISO(m.start);
+  const startD = snapYear(m.start);
   const endD   = startD ? addHours(startD, demand) : null;
 
   // normalize to your unions
   const status: WorkOrder['status']     = startD ? 'Scheduled' : 'Open';
-  const priority: WorkOrder['priority'] = normalizePriority((m as any).priority);
-  const woType: WorkOrder['type']       = inferWoType((m as any).title);
+  const priority: WorkOrder['priority'] = normalizePriority(m.priority);
+  const woType: WorkOrder['type']       = inferWoType(m.title);
 
-  // normalize skills → Skill[]
-  const reqSkills: Skill[] | undefined = (m.requiredSkills && m.requiredSkills.length)
-    ? (m.requiredSkills.map(normalizeSkill).filter(Boolean) as Skill[])
-    : undefined; // keep it undefined if none provided, since your type marks it optional
+  // normalize skills → Skill[]; an explicit crew wins over requiredSkills
+  const crew = normalizeCrewInput(m.crew);
+  const reqSkills: Skill[] | undefined = crew
+    ? [...new Set(crew.map(c => c.skill))]
+    : (m.requiredSkills && m.requiredSkills.length)
+      ? (m.requiredSkills.map(normalizeSkill).filter(Boolean) as Skill[])
+      : undefined; // keep it undefined if none provided, since your type marks it optional
 
   const w: WorkOrder = {
     id,
     vehicleId: String(m.vehicleId),
     title: String(m.title),
+    subsystem: m.subsystem,
     type: woType,                 // <-- REQUIRED by your WorkOrder
     priority,
     status,
     hours: demand,
     requiredSkills: reqSkills,    // optional in your type, ok to be undefined
+    crew,
+    partLines: normalizePartLines({ parts: m.parts }),
+    requiredParts: normalizeParts({ parts: m.parts }),
     start: startD ? isoLocal(startD) : undefined,
     end:   endD   ? isoLocal(endD)   : undefined,
   };
@@ -324,8 +392,9 @@ if (m.type === 'ADD_WO') {
   workorders.push(w);
   notes.push(
     `Added ${w.id} (${w.title}) for ${w.vehicleId}` +
+    (w.partLines ? ` with parts ${w.partLines.map(p => `${p.partId} ×${p.qty}`).join(', ')}` : '') +
     (startD ? ` at ${new Date(w.start as any).toLocaleString()}` : '') +
-    ` (${demand}h)`
+    ` (${demand}h${crew ? `, crew ${crewLabel(w)}` : ''})`
   );
   continue;
 }
@@ -338,7 +407,7 @@ if (m.type === 'ADD_WO') {
       const typeStr = (m as any)?.type ?? '(missing type/op)';
       let payload = '';
       try { payload = JSON.stringify(m); } catch { payload = '[unstringifiable]'; }
-      notes.push(`Unknown mutation type: ${String(typeStr)} for ${payload}`);
+      reject(`Unknown mutation type: ${String(typeStr)} for ${payload}`);
     }
   }
 
@@ -352,5 +421,5 @@ if (m.type === 'ADD_WO') {
     if ((t as any).end   && String((t as any).end).endsWith('Z'))   (t as any).end   = toLocalISO(new Date((t as any).end));
   }
 
-  return { workorders, opsTasks, notes };
+  return { workorders, opsTasks, notes, rejected };
 }
@@ -0,0 +1,378 @@
+// src/data/normalize.ts
+// Field-alias mapping from raw records (fixtures, CMMS exports, REST payloads)
+// into the app's types. Every data source goes through these.
+import type {
+  Vehicle, WorkOrder, OpsTask, FailureRecord, ConditionSnapshot, Skill, PmTask, PmIntervalUnit,
+  CrewRequirement, CrewAssignment, PartRequirement, Technician, AvailabilitySlot, LeaveRecord, PublicHoliday,
+  ShiftPattern,
+} from '../types';
+import { getHorizon } from './planningHorizon';
+import type { ShiftDefinition, ShiftWindow } from './shiftCalendar';
+import type { WorkshopResource, WorkshopResourceKind } from './workshop';
+import { normalizeStatus } from './woLifecycle';
+
+// ---------- helpers ----------
+type RawRecord = Record<string, unknown>;
+
+/** A present value as text; null, undefined and '' stay absent */
+function optString(v: unknown): string | undefined {
+  return v === undefined || v === null || v === '' ? undefined : String(v);
+}
+
+export function toISO(d?: string | null): string | undefined {
+  if (!d) return undefined;
+  const dt = new Date(d);
+  if (isNaN(dt.getTime())) return undefined;
+  return dt.toISOString();
+}
+export function hoursDiff(a?: string, b?: string): number | undefined {
+  const s = a ? new Date(a) : undefined;
+  const e = b ? new Date(b) : undefined;
+  if (!s || !e || isNaN(s.getTime()) || isNaN(e.getTime())) return undefined;
+  return Math.max(0, (e.getTime() - s.getTime()) / 36e5);
+}
+
+// Normalize parts/tools regardless of where they appear in JSON
+export function normalizeParts(input: unknown): string[] | undefined {
+  const rec = (input ?? {}) as RawRecord;
+  const res = (rec.required_resources ?? {}) as RawRecord;
+  const src = rec.requiredParts ?? rec.parts ?? res.parts ?? res.Parts;
+
+  if (!Array.isArray(src) || src.length === 0) return undefined;
+  const out = src
+    .map((p: unknown) => {
+      if (typeof p === 'string') return p;
+      if (p && typeof p === 'object') {
+        const r = p as RawRecord;
+        const id = r.partId ?? r.part_id ?? r.id ?? '';
+        const name = r.partName ?? r.part_name ?? r.name ?? '';
+        const qty = r.qty ?? r.quantity ?? '';
+        const label = String(name || id || 'part');
+        return qty ? `${label} x${String(qty)}` : label;
+      }
+      return String(p);
+    })
+    .filter(Boolean);
+  return out.length ? out : undefined;
+}
+// Structured lines for inventory: [{ partId, qty }] objects or "P-221 x2" strings
+export function normalizePartLines(input: unknown): PartRequirement[] | undefined {
+  const rec = (input ?? {}) as RawRecord;
+  const res = (rec.required_resources ?? {}) as RawRecord;
+  const src = rec.requiredParts ?? rec.parts ?? res.parts ?? res.Parts;
+
+  if (!Array.isArray(src) || src.length === 0) return undefined;
+  const out: PartRequirement[] = [];
+  for (const p of src) {
+    if (typeof p === 'string') {
+      const m = p.trim().match(/^([A-Za-z]+-?\d+[A-Za-z0-9-]*)(?:\s*x\s*(\d+))?$/);
+      if (m) out.push({ partId: m[1].toUpperCase(), qty: Number(m[2] ?? 1) });
+      continue;
+    }
+    const r = (p ?? {}) as RawRecord;
+    const partId = r.partId ?? r.part_id ?? r.id;
+    if (!partId) continue;
+    const name = r.partName ?? r.part_name ?? r.name;
+    out.push({ partId: String(partId), qty: Math.max(1, Number(r.qty ?? r.quantity ?? 1) || 1), ...(name ? { name: String(name) } : {}) });
+  }
+  return out.length ? out : undefined;
+}
+export function normalizeTools(input: unknown): string[] | undefined {
+  const rec = (input ?? {}) as RawRecord;
+  const res = (rec.required_resources ?? {}) as RawRecord;
+  const src = rec.requiredTools ?? rec.tools ?? res.tools ?? res.Tools;
+
+  if (!Array.isArray(src) || src.length === 0) return undefined;
+  const out = src
+    .map((t: unknown) => {
+      if (typeof t === 'string') return t;
+      if (t && typeof t === 'object') {
+        const r = t as RawRecord;
+        return String(r.name ?? r.tool ?? r.id ?? JSON.stringify(r));
+      }
+      return String(t);
+    })
+    .filter(Boolean);
+  return out.length ? out : undefined;
+}
+
+// ---------- Vehicles ----------
+export function normalizeVehicle(input: unknown): Vehicle {
+  const v = (input ?? {}) as RawRecord;
+  return {
+    id: String(v.id ?? v.vehicleId ?? v.code ?? ''),
+    model: String(v.model ?? 'Prime Mover'),
+    year: Number(v.year ?? 2021),
+    status: (v.status ?? 'AVAILABLE') as Vehicle['status'],
+    criticality: (v.criticality ?? 'Low') as Vehicle['criticality'],
+    odometerKm: Number(v.odometerKm ?? v.odometer ?? 0),
+    engineHours: Number(v.engineHours ?? v.hours ?? 0),
+    depot: optString(v.depot ?? v.site),
+    photoUrl: String(v.photoUrl ?? '/assets/prime-mover.png'),
+  };
+}
+
+// ---------- Crew ----------
+// [{ skill, count }] / [{ skill, headcount }] / ["Mechanic", "AutoElec"]
+export function normalizeCrew(input: unknown): CrewRequirement[] | undefined {
+  if (!Array.isArray(input) || input.length === 0) return undefined;
+  const out = input
+    .map((c): CrewRequirement => {
+      if (typeof c === 'string') return { skill: c as Skill, count: 1 };
+      const r = (c ?? {}) as RawRecord;
+      return { skill: (r.skill ?? r.trade ?? 'Mechanic') as Skill, count: Number(r.count ?? r.headcount ?? r.qty ?? 1) };
+    })
+    .filter(c => c.count > 0);
+  return out.length ? out : undefined;
+}
+export function normalizeAssignments(input: unknown): CrewAssignment[] | undefined {
+  if (!Array.isArray(input) || input.length === 0) return undefined;
+  const out = input
+    .map((a): CrewAssignment => {
+      const r = (a ?? {}) as RawRecord;
+      return { skill: (r.skill ?? 'Mechanic') as Skill, technicianId: String(r.technicianId ?? r.technician_id ?? r.tech ?? '') };
+    })
+    .filter(a => a.technicianId);
+  return out.length ? out : undefined;
+}
+
+// ---------- Work Orders ----------
+export function normalizeWorkOrder(input: unknown): WorkOrder {
+  const w = (input ?? {}) as RawRecord;
+  const startRaw = optString(w.start ?? w.scheduled_start ?? w.scheduledStart);
+  const endRaw   = optString(w.end   ?? w.scheduled_end   ?? w.scheduledEnd);
+
+  const startISO = toISO(startRaw);
+  const endISO   = toISO(endRaw);
+
+  const hours =
+    typeof w.hours === 'number'
+      ? w.hours
+      : hoursDiff(startISO, endISO);
+
+  const crew = normalizeCrew(w.crew ?? w.crew_requirements);
+  const requiredSkills: Skill[] | undefined =
+    crew ? [...new Set(crew.map(c => c.skill))] :
+    Array.isArray(w.requiredSkills) ? (w.requiredSkills as Skill[]) :
+    (w.subsystem === 'electrical' ? (['AutoElec'] as Skill[]) : (['Mechanic'] as Skill[]));
+  const assignments = normalizeAssignments(w.assignments ?? w.crew_assignments);
+
+  return {
+    id: String(w.id ?? w.work_order_id ?? w.woId ?? ''),
+    vehicleId: String(w.vehicleId ?? w.asset_id ?? w.assetId ?? ''),
+    title: String(w.title ?? w.description ?? 'Maintenance Task'),
+    type: (w.type ?? w.wo_type ?? 'Corrective') as WorkOrder['type'],
+    priority: (w.priority ?? 'Medium') as WorkOrder['priority'],
+    status: normalizeStatus(w.status ?? w.wo_status) ?? 'Open',
+    subsystem: optString(w.subsystem ?? w.system),
+    requiredSkills,
+    requiredParts: normalizeParts(w),
+    partLines: normalizePartLines(w),
+    requiredTools: normalizeTools(w),
+    technicianId: optString(w.technicianId ?? w.assigned_to) ?? assignments?.[0]?.technicianId,
+    crew,
+    assignments,
+    pmId: optString(w.pmId ?? w.pm_id),
+    hours,
+    start: startISO,
+    end: endISO,
+    description: optString(w.notes ?? w.long_description ?? w.description),
+  } as WorkOrder;
+}
+
+// ---------- Ops Tasks ----------
+export function normalizeOpsTask(input: unknown, i: number): OpsTask {
+  const t = (input ?? {}) as RawRecord;
+  const sISO = toISO(optString(t.start ?? t.scheduled_start ?? t.scheduledStart));
+  const eISO = toISO(optString(t.end   ?? t.scheduled_end   ?? t.scheduledEnd));
+  const idCandidate = t.id ?? t.opsId ?? `OPS-${i + 1}`;
+  return {
+    id: String(idCandidate),
+    vehicleId: String(t.vehicleId ?? t.asset_id ?? ''),
+    title: String(t.title ?? 'Transport Task'),
+    start: sISO ?? getHorizon().start.toISOString(),
+    end:   eISO ?? new Date(+getHorizon().start + 3_600_000).toISOString(),
+    demandHours: Number(t.hours ?? t.demandHours ?? hoursDiff(sISO, eISO) ?? 0),
+  };
+}
+
+// ---------- Failures ----------
+export function normalizeFailure(input: unknown): FailureRecord {
+  const f = (input ?? {}) as RawRecord;
+  return {
+    id: String(f.id ?? f.failure_id ?? ''),
+    vehicleId: String(f.vehicleId ?? f.asset_id ?? ''),
+    subsystem: String(f.subsystem ?? f.system ?? 'engine'),
+    partId: optString(f.partId ?? f.part_id),
+    failureMode: String(f.failureMode ?? f.failure_mode ?? 'unknown'),
+    date: toISO(optString(f.date ?? f.failure_date) ?? new Date().toISOString())!,
+    downtimeHours: Number(f.downtimeHours ?? f.downtime_hours ?? 0),
+  };
+}
+
+// ---------- Condition ----------
+export function normalizeCondition(input: unknown): ConditionSnapshot {
+  const c = (input ?? {}) as RawRecord;
+  const score = Number(c.condition ?? c.score ?? 80);
+  const band = ((c.band ??
+    (score >= 80 ? 'Good' : score >= 60 ? 'Watch' : 'Poor')) as 'Good' | 'Watch' | 'Poor');
+  return {
+    vehicleId: String(c.vehicleId ?? c.asset_id ?? ''),
+    date: String(c.date ?? '').slice(0, 10),
+    subsystem: String(c.subsystem ?? 'engine'),
+    condition: score,
+    band,
+    notes: optString(c.notes),
+  };
+}
+
+// ---------- Preventive maintenance tasks ----------
+const PM_UNITS: Record<string, PmIntervalUnit> = {
+  h: 'h', hr: 'h', hrs: 'h', hours: 'h',
+  km: 'km',
+  d: 'd', day: 'd', days: 'd',
+  w: 'w', wk: 'w', week: 'w', weeks: 'w',
+};
+
+/** Returns null when the interval can't be parsed (nothing to schedule against). */
+export function normalizePmTask(input: unknown): PmTask | null {
+  const p = (input ?? {}) as RawRecord;
+  const label = String(p.interval ?? '').trim();
+  const m = label.toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)$/);
+  const unit = m ? PM_UNITS[m[2]] : undefined;
+  if (!m || !unit) return null;
+  return {
+    id: String(p.id ?? ''),
+    title: String(p.title ?? 'Preventive Maintenance'),
+    subsystem: String(p.subsystem ?? 'general'),
+    interval: { value: Number(m[1]), unit },
+    intervalLabel: label,
+    estimatedHours: Number(p.estimatedHours ?? p.hours ?? 1),
+    requiredSkills: (Array.isArray(p.requiredSkills) && p.requiredSkills.length ? p.requiredSkills : ['Mechanic']) as Skill[],
+  };
+}
+
+// ---------- Technicians & availability ----------
+const SHIFTS: Record<string, ShiftPattern> = {
+  day: 'day', days: 'day', d: 'day',
+  night: 'night', nights: 'night', n: 'night',
+  rotating: 'rotating', rotation: 'rotating', roster: 'rotating', swing: 'rotating',
+};
+
+/** YYYY-MM-DD from a date or timestamp; a leading calendar date is taken as written */
+function ymdOf(d: unknown): string {
+  const s = String(d ?? '');
+  if (/^\d{4}-\d{2}-\d{2}/.test(s)) return s.slice(0, 10);
+  const iso = toISO(s);
+  if (!iso) return '';
+  const dt = new Date(iso);
+  return new Date(+dt - dt.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+}
+
+export function normalizeTechnician(input: unknown): Technician {
+  const t = (input ?? {}) as RawRecord;
+  const skills = Array.isArray(t.skills) ? t.skills : t.skill ? [t.skill] : ['Mechanic'];
+  const shift = SHIFTS[String(t.shift ?? t.shiftPattern ?? t.roster ?? '').toLowerCase()];
+  const depot = t.depot ?? t.site;
+  return {
+    id: String(t.id ?? t.technicianId ?? t.employee_id ?? ''),
+    name: String(t.name ?? t.full_name ?? t.id ?? 'Technician'),
+    skills: skills.map(String) as Skill[],
+    ...(depot ? { depot: String(depot) } : {}),
+    ...(shift ? { shift } : {}),
+  };
+}
+
+export function normalizeAvailability(input: unknown): AvailabilitySlot {
+  const a = (input ?? {}) as RawRecord;
+  return {
+    technicianId: String(a.technicianId ?? a.technician_id ?? a.employee_id ?? ''),
+    date: ymdOf(a.date ?? a.day),
+    hours: Math.max(0, Number(a.hours ?? a.availableHours ?? 0) || 0),
+    source: 'roster',
+  };
+}
+
+export function normalizeLeave(input: unknown): LeaveRecord {
+  const l = (input ?? {}) as RawRecord;
+  const from = ymdOf(l.from ?? l.start ?? l.date);
+  const reason = l.reason ?? l.type;
+  return {
+    technicianId: String(l.technicianId ?? l.technician_id ?? l.employee_id ?? ''),
+    from,
+    to: ymdOf(l.to ?? l.end ?? l.date) || from,
+    ...(reason ? { reason: String(reason) } : {}),
+  };
+}
+
+export function normalizeHoliday(input: unknown): PublicHoliday {
+  const h = (input ?? {}) as RawRecord;
+  const depot = h.depot ?? h.site;
+  return {
+    date: ymdOf(h.date),
+    name: String(h.name ?? h.title ?? 'Public holiday'),
+    ...(depot ? { depot: String(depot) } : {}),
+  };
+}
+
+// ---------- Shift calendar ----------
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** "19:00-05:00" or { start, end } */
+function normalizeWindow(w: unknown): ShiftWindow | null {
+  const hhmm = (x: unknown) => {
+    const m = String(x ?? '').trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+    return m && Number(m[1]) < 24 ? `${m[1].padStart(2, '0')}:${m[2] ?? '00'}` : null;
+  };
+  const [a, b] = typeof w === 'string'
+    ? w.split(/\s*[-–]\s*/)
+    : [(w as RawRecord)?.start ?? (w as RawRecord)?.from, (w as RawRecord)?.end ?? (w as RawRecord)?.to];
+  const start = hhmm(a), end = hhmm(b);
+  return start && end ? { start, end } : null;
+}
+
+/** Returns null when the record has no usable window. */
+export function normalizeShiftDefinition(input: unknown): ShiftDefinition | null {
+  const d = (input ?? {}) as RawRecord;
+  const rawWindows = Array.isArray(d.windows) ? d.windows : [d.window ?? d.hours];
+  const windows = rawWindows.map(normalizeWindow).filter((w): w is ShiftWindow => !!w);
+  if (!windows.length) return null;
+  const shift = SHIFTS[String(d.shift ?? d.pattern ?? '').toLowerCase()];
+  const depot = d.depot ?? d.site;
+  const days = Array.isArray(d.days)
+    ? d.days
+        .map(x => (typeof x === 'number' ? x : WEEKDAYS.indexOf(String(x).slice(0, 3).toLowerCase())))
+        .filter(x => x >= 0 && x <= 6)
+    : undefined;
+  return {
+    name: String(d.name ?? d.id ?? 'Shift'),
+    ...(shift ? { shift } : {}),
+    ...(depot ? { depot: String(depot) } : {}),
+    ...(d.skill ? { skill: String(d.skill) as Skill } : {}),
+    windows,
+    ...(days?.length ? { days } : {}),
+  };
+}
+
+// ---------- Workshop bays, lifts & tools ----------
+const RESOURCE_KINDS: Record<string, WorkshopResourceKind> = {
+  bay: 'bay', bays: 'bay', lift: 'lift', hoist: 'lift', tool: 'tool', equipment: 'tool',
+};
+
+/** Returns null for records without a name or a known kind. */
+export function normalizeWorkshopResource(input: unknown): WorkshopResource | null {
+  const r = (input ?? {}) as RawRecord;
+  const name = r.name ?? r.tool ?? r.title;
+  const kind = RESOURCE_KINDS[String(r.kind ?? r.type ?? 'tool').toLowerCase()];
+  if (!name || !kind) return null;
+  const depot = r.depot ?? r.site;
+  const subsystems = Array.isArray(r.subsystems) ? r.subsystems.map(String) : undefined;
+  return {
+    id: String(r.id ?? `${kind}:${depot ?? 'shared'}:${name}`),
+    name: String(name),
+    kind,
+    ...(depot ? { depot: String(depot) } : {}),
+    qty: Math.max(0, Math.floor(Number(r.qty ?? r.quantity ?? r.count ?? 1) || 0)),
+    ...(subsystems?.length ? { subsystems } : {}),
+  };
+}
@@ -0,0 +1,211 @@
+// src/data/planStore.ts
+import type { WorkOrder, OpsTask } from '../types';
+import { PLANNER, diffPlans, recordAudit } from './auditLog';
+import type { AuditActor } from './auditLog';
+
+/** Solver metadata kept with accepted plans (feeds the MOVED / DELTA reports). */
+export type PlanSummary = {
+  summary: string[];
+  moved: number;
+  scheduled: number;
+  unscheduled: number;
+  movedIds: string[];
+  scheduledIds: string[];
+  unscheduledIds: string[];
+  unscheduledReasons: Record<string, string>;
+  /** Unplaced because parts can't arrive in time (subset of unscheduledIds) */
+  partsBlockedIds?: string[];
+};
+
+export type PlanVersionKind = 'initial' | 'accepted' | 'mutation' | 'restore' | 'manual';
+
+export type PlanVersion = {
+  id: number;
+  name: string;
+  kind: PlanVersionKind;
+  when: string; // ISO timestamp
+  workorders: WorkOrder[];
+  opsTasks: OpsTask[];
+  notes: string[];
+  plan?: PlanSummary;
+  /** Named by a user; never pruned to make room in storage */
+  pinned?: boolean;
+  /** Who made the change (user, agent or script) */
+  actor?: AuditActor;
+};
+
+export type PlanStoreState = {
+  versions: PlanVersion[];
+  currentId: number;
+  undo: number[]; // version ids, most recent last
+  redo: number[];
+};
+
+const STORAGE_KEY = 'saops.planStore.v1';
+
+let state: PlanStoreState | null = null;
+const listeners = new Set<() => void>();
+
+function storage(): Storage | null {
+  try { return typeof localStorage === 'undefined' ? null : localStorage; } catch { return null; }
+}
+
+function load(): PlanStoreState | null {
+  const raw = storage()?.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as PlanStoreState;
+    if (!Array.isArray(parsed.versions) || !parsed.versions.some(v => v.id === parsed.currentId)) return null;
+    return { ...parsed, undo: parsed.undo ?? [], redo: parsed.redo ?? [] };
+  } catch {
+    return null;
+  }
+}
+
+/** Write through; if storage is full, drop the oldest unpinned versions that are not current. */
+function persist(next: PlanStoreState): PlanStoreState {
+  const store = storage();
+  if (!store) return next;
+  let candidate = next;
+  for (;;) {
+    try {
+      store.setItem(STORAGE_KEY, JSON.stringify(candidate));
+      return candidate;
+    } catch {
+      const victim = candidate.versions.find(v => !v.pinned && v.id !== candidate.currentId);
+      if (!victim) return candidate; // nothing left to drop: keep in memory only
+      candidate = {
+        ...candidate,
+        versions: candidate.versions.filter(v => v.id !== victim.id),
+        undo: candidate.undo.filter(id => id !== victim.id),
+        redo: candidate.redo.filter(id => id !== victim.id),
+      };
+    }
+  }
+}
+
+function setState(next: PlanStoreState) {
+  state = persist(next);
+  listeners.forEach(l => l());
+}
+
+function requireState(): PlanStoreState {
+  if (!state) throw new Error('planStore used before initPlanStore()');
+  return state;
+}
+
+/** Load the persisted store, or seed it with the given plan as version 1. Idempotent. */
+export function initPlanStore(seed: () => { workorders: WorkOrder[]; opsTasks: OpsTask[] }): PlanStoreState {
+  if (state) return state;
+  const loaded = load();
+  if (loaded) {
+    state = loaded;
+    return state;
+  }
+  const { workorders, opsTasks } = seed();
+  const actor: AuditActor = { kind: 'script', name: 'Data load' };
+  state = persist({
+    versions: [{ id: 1, name: 'Initial plan', kind: 'initial', when: new Date().toISOString(), workorders, opsTasks, notes: [], actor }],
+    currentId: 1,
+    undo: [],
+    redo: [],
+  });
+  recordAudit([{ actor, entity: 'PLAN', entityId: 'v1', action: 'initial', to: `${workorders.length} work orders, ${opsTasks.length} ops tasks`, versionId: 1 }]);
+  return state;
+}
+
+export function getPlanState(): PlanStoreState {
+  return requireState();
+}
+
+export function subscribePlanStore(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function getCurrentVersion(s: PlanStoreState = requireState()): PlanVersion {
+  return s.versions.find(v => v.id === s.currentId)!;
+}
+
+/** Record a new version and make it current. Clears redo. Every field change is audited. */
+export function commitPlan(input: {
+  name: string;
+  kind: PlanVersionKind;
+  workorders: WorkOrder[];
+  opsTasks: OpsTask[];
+  notes?: string[];
+  plan?: PlanSummary;
+  actor?: AuditActor;
+}): PlanVersion {
+  const s = requireState();
+  const prev = getCurrentVersion(s);
+  const actor = input.actor ?? PLANNER;
+  const id = Math.max(0, ...s.versions.map(v => v.id)) + 1;
+  const version: PlanVersion = {
+    id,
+    name: input.name,
+    kind: input.kind,
+    when: new Date().toISOString(),
+    workorders: input.workorders,
+    opsTasks: input.opsTasks,
+    notes: input.notes ?? [],
+    plan: input.plan,
+    actor,
+  };
+  setState({ versions: [...s.versions, version], currentId: id, undo: [...s.undo, s.currentId], redo: [] });
+  recordAudit([
+    { actor, entity: 'PLAN', entityId: `v${id}`, action: input.kind, from: `v${prev.id}`, to: input.name, versionId: id },
+    ...diffPlans(prev, version, actor, id),
+  ]);
+  return version;
+}
+
+function auditJump(action: string, fromId: number, toId: number, actor: AuditActor) {
+  recordAudit([{ actor, entity: 'PLAN', entityId: `v${toId}`, action, from: `v${fromId}`, to: `v${toId}`, versionId: toId }]);
+}
+
+export function canUndo() { return !!state && state.undo.length > 0; }
+export function canRedo() { return !!state && state.redo.length > 0; }
+
+export function undoPlan(actor: AuditActor = PLANNER): PlanVersion | null {
+  const s = requireState();
+  const prev = s.undo.at(-1);
+  if (prev === undefined) return null;
+  setState({ ...s, currentId: prev, undo: s.undo.slice(0, -1), redo: [...s.redo, s.currentId] });
+  auditJump('undo', s.currentId, prev, actor);
+  return getCurrentVersion();
+}
+
+export function redoPlan(actor: AuditActor = PLANNER): PlanVersion | null {
+  const s = requireState();
+  const next = s.redo.at(-1);
+  if (next === undefined) return null;
+  setState({ ...s, currentId: next, redo: s.redo.slice(0, -1), undo: [...s.undo, s.currentId] });
+  auditJump('redo', s.currentId, next, actor);
+  return getCurrentVersion();
+}
+
+/** Jump to any version. Undoable like any other change. */
+export function restorePlan(id: number, actor: AuditActor = PLANNER): PlanVersion | null {
+  const s = requireState();
+  if (id === s.currentId || !s.versions.some(v => v.id === id)) return null;
+  setState({ ...s, currentId: id, undo: [...s.undo, s.currentId], redo: [] });
+  auditJump('restore', s.currentId, id, actor);
+  return getCurrentVersion();
+}
+
+/** Naming a version pins it so it survives storage pruning. */
+export function renamePlanVersion(id: number, name: string) {
+  const s = requireState();
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  setState({ ...s, versions: s.versions.map(v => (v.id === id ? { ...v, name: trimmed, pinned: true } : v)) });
+}
+
+/** Forget all history and start again from a fresh seed. */
+export function resetPlanStore(seed: () => { workorders: WorkOrder[]; opsTasks: OpsTask[] }) {
+  storage()?.removeItem(STORAGE_KEY);
+  state = null;
+  initPlanStore(seed);
+  listeners.forEach(l => l());
+}
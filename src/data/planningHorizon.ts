@@ -0,0 +1,132 @@
+// src/data/planningHorizon.ts
+// Single source of truth for the planning window every component and agent uses.
+import { ymdLocal } from '../utils/time';
+
+export type HorizonDays = 7 | 14 | 28;
+export const HORIZON_OPTIONS: HorizonDays[] = [7, 14, 28];
+
+export type PlanningHorizon = {
+  mode: 'today' | 'week';
+  start: Date;   // local midnight
+  end: Date;     // exclusive, local midnight
+  days: HorizonDays;
+};
+
+const DAY_MS = 86_400_000;
+
+/** The week the bundled demo fleet is built around. */
+export const DEMO_WEEK_START = '2025-08-22';
+
+function midnight(d: Date) {
+  const x = new Date(d);
+  x.setHours(0, 0, 0, 0);
+  return x;
+}
+function addDays(d: Date, n: number) {
+  const x = new Date(d);
+  x.setDate(x.getDate() + n);
+  return x;
+}
+function make(mode: PlanningHorizon['mode'], start: Date, days: HorizonDays): PlanningHorizon {
+  const s = midnight(start);
+  return { mode, start: s, end: addDays(s, days), days };
+}
+
+/**
+ * VITE_HORIZON_START = "today" | "YYYY-MM-DD" (default: the demo week)
+ * VITE_HORIZON_DAYS  = 7 | 14 | 28 (default 7)
+ */
+function initial(env: Record<string, string | undefined> = import.meta.env ?? {}): PlanningHorizon {
+  const days = (HORIZON_OPTIONS as number[]).includes(Number(env.VITE_HORIZON_DAYS))
+    ? (Number(env.VITE_HORIZON_DAYS) as HorizonDays)
+    : 7;
+  const startRaw = String(env.VITE_HORIZON_START ?? DEMO_WEEK_START).trim().toLowerCase();
+  if (startRaw === 'today') return make('today', new Date(), days);
+  const d = new Date(`${startRaw}T00:00:00`);
+  return make('week', isNaN(+d) ? new Date(`${DEMO_WEEK_START}T00:00:00`) : d, days);
+}
+
+let horizon: PlanningHorizon = initial();
+const listeners = new Set<() => void>();
+
+function set(next: PlanningHorizon) {
+  horizon = next;
+  listeners.forEach(l => l());
+}
+
+export function getHorizon(): PlanningHorizon {
+  return horizon;
+}
+
+export function subscribeHorizon(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** A horizon from a start day ("YYYY-MM-DD") and a length, e.g. as a client sent it; null if either is unusable. */
+export function horizonFrom(start: string, days: number): PlanningHorizon | null {
+  const d = new Date(start.length === 10 ? `${start}T00:00:00` : start);
+  if (isNaN(+d) || !(HORIZON_OPTIONS as number[]).includes(days)) return null;
+  return make('week', d, days as HorizonDays);
+}
+
+export function goToToday() {
+  set(make('today', new Date(), horizon.days));
+}
+
+/** Start the horizon on any chosen date (the day it falls on, not a Monday). */
+export function setHorizonStart(date: Date | string) {
+  const d = typeof date === 'string' ? new Date(date.length === 10 ? `${date}T00:00:00` : date) : date;
+  if (isNaN(+d)) return;
+  set(make('week', d, horizon.days));
+}
+
+export function setHorizonDays(days: HorizonDays) {
+  set(make(horizon.mode, horizon.start, days));
+}
+
+/** Move by whole weeks (negative = back). */
+export function shiftHorizon(weeks: number) {
+  set(make('week', addDays(horizon.start, weeks * 7), horizon.days));
+}
+
+/* ===================== derived helpers ===================== */
+
+export function horizonDates(h: PlanningHorizon = horizon): Date[] {
+  return Array.from({ length: h.days }, (_, i) => addDays(h.start, i));
+}
+
+export function horizonDayKeys(h: PlanningHorizon = horizon): string[] {
+  return horizonDates(h).map(ymdLocal);
+}
+
+export function inHorizon(d: Date, h: PlanningHorizon = horizon) {
+  return d >= h.start && d < h.end;
+}
+
+/** e.g. "Fri 22 Aug – Thu 28 Aug 2025" */
+export function horizonLabel(h: PlanningHorizon = horizon) {
+  const last = new Date(+h.end - DAY_MS);
+  const fmt = (d: Date, withYear: boolean) => d.toLocaleDateString(undefined, {
+    weekday: 'short', day: '2-digit', month: 'short', ...(withYear ? { year: 'numeric' } : {}),
+  });
+  return `${fmt(h.start, false)} – ${fmt(last, true)}`;
+}
+
+/**
+ * Dates typed without a year (or parsed into the wrong one) are moved to the
+ * year that puts them closest to the horizon, so "2 Jan" near New Year works.
+ * Pass the text the date came from: one that spells out a year is left alone.
+ */
+export function snapToHorizonYear(d: Date | null, h: PlanningHorizon = horizon, typed?: string): Date | null {
+  if (!d || (typed && /(^|\D)\d{4}(\D|$)/.test(typed))) return d;
+  const mid = +h.start + (+h.end - +h.start) / 2;
+  const base = h.start.getFullYear();
+  let best = d;
+  for (const y of [base - 1, base, base + 1]) {
+    const c = new Date(d);
+    c.setFullYear(y);
+    if (Math.abs(+c - mid) < Math.abs(+best - mid)) best = c;
+  }
+  return best;
+}
@@ -0,0 +1,180 @@
+// src/data/pmEngine.ts
+import type { Vehicle, WorkOrder, PmTask } from '../types';
+import { getPmTasks } from './adapter';
+import { getHorizon } from './planningHorizon';
+import { isActive } from './woLifecycle';
+import { ymdLocal } from '../utils/time';
+
+export type PmDueState = 'OK' | 'DUE' | 'OVERDUE';
+
+export type PmStatus = {
+  vehicleId: string;
+  pmId: string;
+  title: string;
+  subsystem: string;
+  basis: 'engineHours' | 'odometerKm' | 'calendar';
+  state: PmDueState;
+  /** Where the last completion came from: a closed WO, or the on-cycle assumption */
+  lastDoneSource: 'history' | 'assumed';
+  lastDoneDate: string;      // YYYY-MM-DD
+  lastDoneMeter?: number;    // h or km (meter-based tasks only)
+  dueMeter?: number;         // h or km (meter-based tasks only)
+  currentMeter?: number;     // h or km (meter-based tasks only)
+  dueDate: string;           // YYYY-MM-DD (projected for meter-based tasks)
+  remaining: number;         // h, km or days until due (negative = overdue)
+  plannedWoId?: string;      // an open/scheduled WO already covers this PM
+};
+
+export type PmOptions = {
+  asOf?: Date;
+  horizonDays?: number;
+  tasks?: PmTask[];
+};
+
+const DAY_MS = 86_400_000;
+
+function addDays(d: Date, n: number) {
+  return new Date(d.getTime() + n * DAY_MS);
+}
+function intervalDays(task: PmTask) {
+  return task.interval.unit === 'w' ? task.interval.value * 7 : task.interval.value;
+}
+
+/** A WO counts towards a PM task when it carries its pmId, or is Preventive on the same subsystem. */
+function coversTask(w: WorkOrder, task: PmTask) {
+  if (w.pmId) return w.pmId === task.id;
+  return w.type === 'Preventive' && (w.subsystem ?? '').toLowerCase() === task.subsystem.toLowerCase();
+}
+
+/** Vehicles are assumed in service from 1 Jan of their model year. */
+function inServiceDate(v: Vehicle, asOf: Date) {
+  const d = new Date(v.year ?? asOf.getFullYear(), 0, 1);
+  return d > asOf ? addDays(asOf, -30) : d;
+}
+
+/** Lifetime average daily utilisation for meter projections. */
+function usagePerDay(v: Vehicle, asOf: Date) {
+  const days = Math.max(30, (asOf.getTime() - inServiceDate(v, asOf).getTime()) / DAY_MS);
+  return {
+    hoursPerDay: (v.engineHours ?? 0) / days,
+    kmPerDay: (v.odometerKm ?? 0) / days,
+  };
+}
+
+/**
+ * Due state of every PM task for every vehicle.
+ *
+ * The last completion is the latest Closed WO covering the task. Without one
+ * we assume the PM has been done on cycle since commissioning, i.e. at the
+ * previous interval multiple of the meter (or of days in service).
+ */
+export function computePmStatus(vehicles: Vehicle[], workorders: WorkOrder[], opts: PmOptions = {}): PmStatus[] {
+  const asOf = opts.asOf ?? new Date(getHorizon().start);
+  const horizonEnd = addDays(asOf, opts.horizonDays ?? getHorizon().days);
+  const tasks = opts.tasks ?? getPmTasks();
+  const out: PmStatus[] = [];
+
+  for (const v of vehicles) {
+    const vWos = workorders.filter(w => w.vehicleId === v.id);
+    const { hoursPerDay, kmPerDay } = usagePerDay(v, asOf);
+
+    for (const task of tasks) {
+      const covering = vWos.filter(w => coversTask(w, task));
+      const lastClosed = covering
+        .filter(w => w.status === 'Closed' && (w.end ?? w.start))
+        .map(w => new Date((w.end ?? w.start)!))
+        .filter(d => !isNaN(+d) && d <= asOf)
+        .sort((a, b) => +b - +a)[0];
+      const planned = covering.find(w => isActive(w.status));
+
+      const base = {
+        vehicleId: v.id,
+        pmId: task.id,
+        title: task.title,
+        subsystem: task.subsystem,
+        plannedWoId: planned?.id,
+      };
+
+      if (task.interval.unit === 'h' || task.interval.unit === 'km') {
+        const byHours = task.interval.unit === 'h';
+        const current = byHours ? (v.engineHours ?? 0) : (v.odometerKm ?? 0);
+        const rate = byHours ? hoursPerDay : kmPerDay;
+        const step = task.interval.value;
+
+        const lastMeter = lastClosed
+          ? Math.max(0, current - rate * ((asOf.getTime() - lastClosed.getTime()) / DAY_MS))
+          : Math.floor(current / step) * step;
+        const lastDate = lastClosed ?? addDays(asOf, -(rate > 0 ? (current - lastMeter) / rate : 0));
+        const dueMeter = lastMeter + step;
+        const remaining = dueMeter - current;
+        const dueDate = rate > 0 ? addDays(asOf, remaining / rate) : addDays(asOf, 365);
+
+        out.push({
+          ...base,
+          basis: byHours ? 'engineHours' : 'odometerKm',
+          state: remaining <= 0 ? 'OVERDUE' : dueDate < horizonEnd ? 'DUE' : 'OK',
+          lastDoneSource: lastClosed ? 'history' : 'assumed',
+          lastDoneDate: ymdLocal(lastDate),
+          lastDoneMeter: Math.round(lastMeter),
+          dueMeter: Math.round(dueMeter),
+          currentMeter: current,
+          dueDate: ymdLocal(dueDate),
+          remaining: Math.round(remaining),
+        });
+        continue;
+      }
+
+      const every = intervalDays(task);
+      let lastDate = lastClosed;
+      if (!lastDate) {
+        const commissioned = inServiceDate(v, asOf);
+        const cycles = Math.floor((asOf.getTime() - commissioned.getTime()) / DAY_MS / every);
+        lastDate = addDays(commissioned, cycles * every);
+      }
+      const dueDate = addDays(lastDate, every);
+      const remaining = (dueDate.getTime() - asOf.getTime()) / DAY_MS;
+
+      out.push({
+        ...base,
+        basis: 'calendar',
+        state: remaining <= 0 ? 'OVERDUE' : dueDate < horizonEnd ? 'DUE' : 'OK',
+        lastDoneSource: lastClosed ? 'history' : 'assumed',
+        lastDoneDate: ymdLocal(lastDate),
+        dueDate: ymdLocal(dueDate),
+        remaining: Math.round(remaining * 10) / 10,
+      });
+    }
+  }
+  return out;
+}
+
+/** Preventive WOs for every due/overdue PM that no open WO already covers. */
+export function generatePmWorkOrders(vehicles: Vehicle[], workorders: WorkOrder[], opts: PmOptions = {}): WorkOrder[] {
+  const tasks = new Map((opts.tasks ?? getPmTasks()).map(t => [t.id, t]));
+  const existing = new Set(workorders.map(w => w.id));
+
+  return computePmStatus(vehicles, workorders, opts)
+    .filter(s => s.state !== 'OK' && !s.plannedWoId)
+    .flatMap(s => {
+      const task = tasks.get(s.pmId);
+      const id = `PM-${s.vehicleId}-${s.pmId.replace(/^PM-/, '')}`;
+      if (!task || existing.has(id)) return [];
+      const unit = s.basis === 'engineHours' ? 'h' : s.basis === 'odometerKm' ? 'km' : '';
+      const dueText = s.basis === 'calendar'
+        ? `due ${s.dueDate} (every ${task.intervalLabel}, last ${s.lastDoneDate})`
+        : `due at ${s.dueMeter}${unit}, now ${s.currentMeter}${unit} (projected ${s.dueDate})`;
+      return [{
+        id,
+        vehicleId: s.vehicleId,
+        title: task.title,
+        type: 'Preventive',
+        priority: s.state === 'OVERDUE' ? 'Medium' : 'Low',
+        status: 'Open',
+        subsystem: task.subsystem,
+        requiredSkills: [...task.requiredSkills],
+        hours: task.estimatedHours,
+        pmId: task.id,
+        description: `${s.state === 'OVERDUE' ? 'Overdue' : 'Due'} PM ${task.id}: ${dueText}.`,
+      } satisfies WorkOrder];
+    });
+}
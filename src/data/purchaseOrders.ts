@@ -0,0 +1,229 @@
+// src/data/purchaseOrders.ts
+// Draft purchase orders. Lines are consolidated per part across all open work,
+// grounded in the parts catalog (agents can't invent part numbers or prices),
+// and stay editable until the planner exports them.
+import type { WorkOrder, PoLine, PurchaseOrderDraft } from '../types';
+import { getPartsCatalog } from './partsCatalog';
+import type { CatalogPart } from './partsCatalog';
+import { getInventory } from './inventoryStore';
+import type { InventoryState } from './inventoryStore';
+import { getHorizon } from './planningHorizon';
+import { isActive } from './woLifecycle';
+import { ymdLocal } from '../utils/time';
+
+/** Demand for one part across every active work order, against stock on hand. */
+export type PartDemand = {
+  partId: string;
+  partName: string;
+  demand: number;
+  onHand: number;
+  shortfall: number;
+  /** Start date of the first job the shelf stock can't cover (window start if unscheduled) */
+  needBy: string;
+  woIds: string[];
+  inCatalog: boolean;
+};
+
+let draft: PurchaseOrderDraft | null = null;
+let seq = 0;
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach(l => l());
+}
+
+export function getDraftPO(): PurchaseOrderDraft | null {
+  return draft;
+}
+
+export function subscribeDraftPO(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function setDraftPO(next: PurchaseOrderDraft | null) {
+  draft = next;
+  emit();
+}
+
+export function updatePoLine(partId: string, patch: Partial<Pick<PoLine, 'qty' | 'supplier' | 'unitCost' | 'needBy'>>) {
+  if (!draft) return;
+  const clean = { ...patch };
+  if (clean.qty !== undefined) clean.qty = Math.max(1, Math.round(Number(clean.qty) || 1));
+  if (clean.unitCost !== undefined) clean.unitCost = Math.max(0, Number(clean.unitCost) || 0);
+  setDraftPO({ ...draft, lines: draft.lines.map(l => (l.partId === partId ? { ...l, ...clean } : l)) });
+}
+
+export function removePoLine(partId: string) {
+  if (!draft) return;
+  setDraftPO({ ...draft, lines: draft.lines.filter(l => l.partId !== partId) });
+}
+
+function findCatalogPart(idOrName: string): CatalogPart | undefined {
+  const key = idOrName.trim().toUpperCase();
+  if (!key) return undefined;
+  const catalog = getPartsCatalog();
+  return catalog.find(c => c.part_id.toUpperCase() === key) ?? catalog.find(c => c.part_name.toUpperCase() === key);
+}
+
+function newDraft(source: PurchaseOrderDraft['source'], lines: PoLine[], notes: string[]): PurchaseOrderDraft {
+  const now = new Date();
+  return {
+    id: `PO-DRAFT-${ymdLocal(now).replace(/-/g, '')}-${++seq}`,
+    created: now.toISOString(),
+    source,
+    lines,
+    notes: notes.length ? notes : undefined,
+  };
+}
+
+/* ===================== consolidation ===================== */
+
+/**
+ * Sum part needs over all active work orders (scheduled or not). Jobs draw on
+ * the shelf in start order, so the need-by date is the first job left short.
+ */
+export function consolidateDemand(plan: WorkOrder[], inv: InventoryState = getInventory()): PartDemand[] {
+  const windowStart = ymdLocal(getHorizon().start);
+  const byPart = new Map<string, { name?: string; jobs: Array<{ w: WorkOrder; qty: number }> }>();
+  for (const w of plan) {
+    if (!isActive(w.status) || !w.partLines?.length) continue;
+    for (const line of w.partLines) {
+      const key = line.partId.toUpperCase();
+      if (!byPart.has(key)) byPart.set(key, { name: line.name, jobs: [] });
+      byPart.get(key)!.jobs.push({ w, qty: line.qty });
+    }
+  }
+
+  const out: PartDemand[] = [];
+  for (const [key, { name, jobs }] of byPart) {
+    const item = inv.items.find(i => i.partId.toUpperCase() === key);
+    const cat = findCatalogPart(key);
+    const onHand = item?.onHand ?? 0;
+    const ordered = [...jobs].sort((a, b) =>
+      (a.w.start ? +new Date(a.w.start) : Infinity) - (b.w.start ? +new Date(b.w.start) : Infinity) ||
+      a.w.id.localeCompare(b.w.id));
+
+    let cum = 0;
+    let needBy = '';
+    for (const { w, qty } of ordered) {
+      cum += qty;
+      if (!needBy && cum > onHand) needBy = w.start ? ymdLocal(new Date(w.start)) : windowStart;
+    }
+    out.push({
+      partId: item?.partId ?? cat?.part_id ?? key,
+      partName: item?.name ?? cat?.part_name ?? name ?? key,
+      demand: cum,
+      onHand,
+      shortfall: Math.max(0, cum - onHand),
+      needBy: needBy || windowStart,
+      woIds: [...new Set(ordered.map(j => j.w.id))],
+      inCatalog: !!cat,
+    });
+  }
+  return out.sort((a, b) => b.shortfall - a.shortfall || a.partId.localeCompare(b.partId));
+}
+
+function lineFor(cat: CatalogPart, qty: number, needBy: string, woIds: string[]): PoLine {
+  return {
+    partId: cat.part_id,
+    partName: cat.part_name,
+    qty,
+    supplier: cat.supplier ?? 'TBC',
+    unitCost: cat.unit_cost ?? 0,
+    needBy,
+    woIds,
+  };
+}
+
+/** Order exactly the consolidated shortfalls. */
+export function draftFromShortfalls(demand: PartDemand[]): PurchaseOrderDraft {
+  const lines: PoLine[] = [];
+  const notes: string[] = [];
+  for (const d of demand) {
+    if (d.shortfall <= 0) continue;
+    const cat = findCatalogPart(d.partId);
+    if (!cat) { notes.push(`${d.partId} (needed by ${d.woIds.join(', ')}) is not in the parts catalog — add it before ordering.`); continue; }
+    lines.push(lineFor(cat, d.shortfall, d.needBy, d.woIds));
+  }
+  return newDraft('shortfall', lines, notes);
+}
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Turn model output into PO lines. Part ids must resolve against the catalog
+ * (by id, or exact name); supplier and unit cost come from the catalog when it
+ * has them. Duplicate lines are merged, and no line orders less than the
+ * consolidated shortfall.
+ */
+export function groundPoLines(raw: unknown, demand: PartDemand[], knownWoIds: Set<string>): { lines: PoLine[]; notes: string[] } {
+  const notes: string[] = [];
+  const merged = new Map<string, PoLine>();
+  const rows = Array.isArray(raw) ? raw : [];
+
+  for (const r of rows) {
+    if (!r || typeof r !== 'object') continue;
+    const o = r as Record<string, unknown>;
+    const ref = String(o.part_id ?? o.partId ?? o.part_name ?? o.partName ?? '');
+    const cat = findCatalogPart(ref);
+    if (!cat) { notes.push(`Dropped "${ref || 'unnamed line'}": not in the parts catalog.`); continue; }
+
+    const d = demand.find(x => x.partId.toUpperCase() === cat.part_id.toUpperCase());
+    const qty = Math.max(1, Math.round(Number(o.qty ?? o.quantity ?? 0) || 0));
+    const rawNeed = String(o.need_by ?? o.needBy ?? '');
+    const needBy = YMD.test(rawNeed) ? rawNeed : d?.needBy ?? ymdLocal(getHorizon().start);
+    const rawWos = Array.isArray(o.wo_ids) ? o.wo_ids : Array.isArray(o.woIds) ? o.woIds : [];
+    const woIds = rawWos.map(String).filter(id => knownWoIds.has(id));
+
+    const prev = merged.get(cat.part_id);
+    if (prev) {
+      prev.qty += qty;
+      prev.needBy = needBy < prev.needBy ? needBy : prev.needBy;
+      prev.woIds = [...new Set([...prev.woIds, ...woIds])];
+    } else {
+      const line = lineFor(cat, qty, needBy, woIds);
+      if (!cat.supplier && typeof o.supplier === 'string' && o.supplier.trim()) line.supplier = o.supplier.trim();
+      merged.set(cat.part_id, line);
+    }
+  }
+
+  for (const line of merged.values()) {
+    const d = demand.find(x => x.partId.toUpperCase() === line.partId.toUpperCase());
+    if (!d) continue;
+    line.woIds = [...new Set([...d.woIds, ...line.woIds])];
+    if (line.qty < d.shortfall) {
+      notes.push(`${line.partId}: raised qty ${line.qty} → ${d.shortfall} to cover all open work orders.`);
+      line.qty = d.shortfall;
+    }
+  }
+  return { lines: [...merged.values()], notes };
+}
+
+export function draftFromAgent(raw: unknown, demand: PartDemand[], knownWoIds: Set<string>): PurchaseOrderDraft | null {
+  const { lines, notes } = groundPoLines(raw, demand, knownWoIds);
+  return lines.length ? newDraft('agent', lines, notes) : null;
+}
+
+/* ===================== export ===================== */
+
+export function poTotal(po: PurchaseOrderDraft): number {
+  return po.lines.reduce((sum, l) => sum + l.qty * l.unitCost, 0);
+}
+
+const csvCell = (v: string | number) => {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function poToCSV(po: PurchaseOrderDraft): string {
+  const header = ['po_id', 'part_id', 'part_name', 'qty', 'supplier', 'unit_cost', 'line_total', 'need_by', 'work_orders'];
+  const rows = po.lines.map(l => [
+    po.id, l.partId, l.partName, l.qty, l.supplier, l.unitCost.toFixed(2), (l.qty * l.unitCost).toFixed(2), l.needBy, l.woIds.join(' '),
+  ]);
+  return [header, ...rows].map(r => r.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export function poToJSON(po: PurchaseOrderDraft): string {
+  return JSON.stringify({ ...po, total: poTotal(po) }, null, 2);
+}
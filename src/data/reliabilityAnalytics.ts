@@ -0,0 +1,289 @@
+// src/data/reliabilityAnalytics.ts
+// Deterministic reliability statistics over the failure history: MTBF/MTTR,
+// Weibull fits, failure-rate trend tests and Pareto of failure modes. These are
+// the numbers the Reliability agent cites, so the maths lives here, not in a prompt.
+import type { FailureRecord } from '../types';
+import { getHorizon } from './planningHorizon';
+import { ymdLocal } from '../utils/time';
+
+const DAY_MS = 86_400_000;
+/** Below this many failures the fits and tests are noise */
+const MIN_FAILURES = 4;
+/** One-sided significance for "failure rate is increasing" */
+const ALPHA = 0.05;
+
+export type WeibullFit = {
+  /** Shape: <1 infant mortality, ≈1 random, >1 wear-out */
+  beta: number;
+  /** Scale (characteristic life), days between failures */
+  etaDays: number;
+};
+
+export type TrendTest = {
+  /** Laplace U, or the Crow-AMSAA shape β */
+  statistic: number;
+  /** One-sided p-value for an increasing failure rate */
+  p: number;
+};
+
+export type ReliabilityStats = {
+  vehicleId: string;
+  /** Omitted for whole-vehicle rows */
+  subsystem?: string;
+  failures: number;
+  downtimeHours: number;
+  /** Calendar uptime in the window ÷ failures */
+  mtbfDays: number | null;
+  mttrHours: number | null;
+  /** MTBF / (MTBF + MTTR) */
+  availability: number | null;
+  weibull: WeibullFit | null;
+  laplace: TrendTest | null;
+  crowAmsaa: (TrendTest & { lambda: number }) | null;
+  /** Either trend test says the failure rate is rising (p < 0.05) */
+  increasing: boolean;
+  lastFailure?: string; // YYYY-MM-DD
+};
+
+export type ParetoRow = {
+  mode: string;
+  count: number;
+  downtimeHours: number;
+  /** Cumulative share of failures, 0–100 */
+  cumPct: number;
+  /** Inside the first 80% of failures */
+  vital: boolean;
+};
+
+export type ReliabilityFinding = {
+  vehicleId: string;
+  subsystem?: string;
+  text: string;
+};
+
+export type ReliabilityReport = {
+  asOf: string;        // YYYY-MM-DD
+  windowStart: string; // YYYY-MM-DD
+  windowDays: number;
+  fleet: ReliabilityStats;
+  vehicles: ReliabilityStats[];
+  /** Vehicle × subsystem rows with at least one failure */
+  subsystems: ReliabilityStats[];
+  pareto: ParetoRow[];
+  paretoByVehicle: Record<string, ParetoRow[]>;
+  findings: ReliabilityFinding[];
+};
+
+export type ReliabilityOptions = {
+  asOf?: Date;
+  historyDays?: number;
+};
+
+/* ===================== distributions ===================== */
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26 erf). */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** P(X ≤ x) for X ~ χ² with 2k degrees of freedom (closed form for even dof). */
+export function chiSquareCdfEven(x: number, k: number): number {
+  if (x <= 0) return 0;
+  const h = x / 2;
+  let term = 1;
+  let sum = 1;
+  for (let i = 1; i < k; i++) { term *= h / i; sum += term; }
+  return Math.max(0, Math.min(1, 1 - Math.exp(-h) * sum));
+}
+
+/* ===================== estimators ===================== */
+
+/**
+ * Two-parameter Weibull MLE (Newton on the shape equation). Needs at least
+ * MIN_FAILURES positive samples; returns null otherwise or if it won't converge.
+ */
+export function fitWeibull(samples: number[]): WeibullFit | null {
+  const xs = samples.filter(x => x > 0);
+  const n = xs.length;
+  if (n < MIN_FAILURES) return null;
+  const logs = xs.map(Math.log);
+  const meanLog = logs.reduce((a, b) => a + b, 0) / n;
+
+  let beta = 1;
+  for (let iter = 0; iter < 100; iter++) {
+    let s0 = 0, s1 = 0, s2 = 0;
+    for (let i = 0; i < n; i++) {
+      const xb = Math.pow(xs[i], beta);
+      s0 += xb;
+      s1 += xb * logs[i];
+      s2 += xb * logs[i] * logs[i];
+    }
+    const g = s1 / s0 - 1 / beta - meanLog;
+    const dg = (s2 * s0 - s1 * s1) / (s0 * s0) + 1 / (beta * beta);
+    const next = beta - g / dg;
+    if (!isFinite(next) || next <= 0) return null;
+    if (Math.abs(next - beta) < 1e-6) { beta = next; break; }
+    beta = next;
+  }
+  const eta = Math.pow(xs.reduce((a, x) => a + Math.pow(x, beta), 0) / n, 1 / beta);
+  return isFinite(beta) && isFinite(eta) ? { beta, etaDays: eta } : null;
+}
+
+/** Laplace test; t = failure times since window start, T = window length (same units). */
+export function laplaceTest(t: number[], T: number): TrendTest | null {
+  const n = t.length;
+  if (n < MIN_FAILURES || T <= 0) return null;
+  const u = (t.reduce((a, b) => a + b, 0) / n - T / 2) / (T * Math.sqrt(1 / (12 * n)));
+  return { statistic: u, p: 1 - normalCdf(u) };
+}
+
+/**
+ * Crow-AMSAA (power-law NHPP), time-terminated at T. β > 1 means failures are
+ * arriving faster; 2n/β ~ χ²(2n) under a constant rate, small values ⇒ increasing.
+ */
+export function crowAmsaa(t: number[], T: number): (TrendTest & { lambda: number }) | null {
+  const n = t.length;
+  if (n < MIN_FAILURES || T <= 0) return null;
+  const sumLog = t.reduce((a, ti) => a + Math.log(T / Math.max(ti, 1e-6)), 0);
+  if (sumLog <= 0) return null;
+  const beta = n / sumLog;
+  return { statistic: beta, lambda: n / Math.pow(T, beta), p: chiSquareCdfEven(2 * sumLog, n) };
+}
+
+export function paretoOf(failures: FailureRecord[]): ParetoRow[] {
+  const byMode = new Map<string, { count: number; downtimeHours: number }>();
+  for (const f of failures) {
+    const mode = f.failureMode || 'unspecified';
+    const cur = byMode.get(mode) ?? { count: 0, downtimeHours: 0 };
+    cur.count += 1;
+    cur.downtimeHours += f.downtimeHours || 0;
+    byMode.set(mode, cur);
+  }
+  const rows = [...byMode].sort((a, b) => b[1].count - a[1].count || b[1].downtimeHours - a[1].downtimeHours || a[0].localeCompare(b[0]));
+  let cum = 0;
+  return rows.map(([mode, r]) => {
+    const before = cum;
+    cum += r.count;
+    return { mode, ...r, cumPct: (100 * cum) / failures.length, vital: (100 * before) / failures.length < 80 };
+  });
+}
+
+/* ===================== report ===================== */
+
+function statsFor(
+  vehicleId: string,
+  subsystem: string | undefined,
+  failures: FailureRecord[],
+  start: number,
+  end: number,
+  units = 1
+): ReliabilityStats {
+  const T = (end - start) / DAY_MS;
+  const sorted = [...failures].sort((a, b) => +new Date(a.date) - +new Date(b.date));
+  const times = sorted.map(f => (+new Date(f.date) - start) / DAY_MS);
+  const n = sorted.length;
+  const downtimeHours = sorted.reduce((a, f) => a + (f.downtimeHours || 0), 0);
+
+  const uptimeDays = Math.max(0, T * units - downtimeHours / 24);
+  const mtbfDays = n ? uptimeDays / n : null;
+  const mttrHours = n ? downtimeHours / n : null;
+  const availability = mtbfDays !== null && mttrHours !== null ? mtbfDays / (mtbfDays + mttrHours / 24) : null;
+
+  // Same-day repeats would give zero gaps; floor them at one hour
+  const gaps = times.map((ti, i) => Math.max(1 / 24, ti - (i ? times[i - 1] : 0)));
+  const laplace = units === 1 ? laplaceTest(times, T) : null;
+  const crow = units === 1 ? crowAmsaa(times, T) : null;
+
+  return {
+    vehicleId,
+    subsystem,
+    failures: n,
+    downtimeHours,
+    mtbfDays,
+    mttrHours,
+    availability,
+    weibull: units === 1 ? fitWeibull(gaps) : null,
+    laplace,
+    crowAmsaa: crow,
+    increasing: (!!laplace && laplace.p < ALPHA) || (!!crow && crow.statistic > 1 && crow.p < ALPHA),
+    lastFailure: n ? ymdLocal(new Date(sorted[n - 1].date)) : undefined,
+  };
+}
+
+const f1 = (x: number) => x.toFixed(1);
+const fp = (p: number) => (p < 0.001 ? 'p<0.001' : `p=${p.toFixed(3)}`);
+
+function describe(s: ReliabilityStats, fleet: ReliabilityStats, topMode?: ParetoRow): string {
+  const parts: string[] = [];
+  if (s.laplace) parts.push(`Laplace U=${s.laplace.statistic.toFixed(2)} (${fp(s.laplace.p)})`);
+  if (s.crowAmsaa) parts.push(`Crow-AMSAA β=${s.crowAmsaa.statistic.toFixed(2)} (${fp(s.crowAmsaa.p)})`);
+  // Fleet MTBF is whole-vehicle, so only compare like with like
+  const mtbf = s.subsystem ? (s.mtbfDays !== null ? `; MTBF ${f1(s.mtbfDays)} d` : '')
+    : s.mtbfDays !== null && fleet.mtbfDays !== null ? `; MTBF ${f1(s.mtbfDays)} d vs fleet ${f1(fleet.mtbfDays)} d` : '';
+  const mode = topMode ? `; top mode "${topMode.mode}" ×${topMode.count}` : '';
+  return `${s.failures} failures, increasing rate — ${parts.join(', ')}${mtbf}${mode}`;
+}
+
+/** Full report for the window ending at asOf (default: planning horizon start, last 180 days). */
+export function analyzeReliability(failures: FailureRecord[], opts: ReliabilityOptions = {}): ReliabilityReport {
+  const asOf = opts.asOf ?? getHorizon().start;
+  const windowDays = opts.historyDays ?? 180;
+  const end = +asOf;
+  const start = end - windowDays * DAY_MS;
+  const inWindow = failures.filter(f => {
+    const t = +new Date(f.date);
+    return isFinite(t) && t > start && t <= end;
+  });
+
+  const byVehicle = new Map<string, FailureRecord[]>();
+  for (const f of inWindow) {
+    if (!byVehicle.has(f.vehicleId)) byVehicle.set(f.vehicleId, []);
+    byVehicle.get(f.vehicleId)!.push(f);
+  }
+
+  const vehicles: ReliabilityStats[] = [];
+  const subsystems: ReliabilityStats[] = [];
+  const paretoByVehicle: Record<string, ParetoRow[]> = {};
+  for (const [vehicleId, list] of [...byVehicle].sort((a, b) => a[0].localeCompare(b[0]))) {
+    vehicles.push(statsFor(vehicleId, undefined, list, start, end));
+    paretoByVehicle[vehicleId] = paretoOf(list);
+    const bySub = new Map<string, FailureRecord[]>();
+    for (const f of list) {
+      const key = f.subsystem || 'unspecified';
+      if (!bySub.has(key)) bySub.set(key, []);
+      bySub.get(key)!.push(f);
+    }
+    for (const [sub, subList] of [...bySub].sort((a, b) => a[0].localeCompare(b[0]))) {
+      subsystems.push(statsFor(vehicleId, sub, subList, start, end));
+    }
+  }
+
+  // Fleet MTBF is per vehicle (uptime summed over every vehicle with history)
+  const fleet = statsFor('FLEET', undefined, inWindow, start, end, Math.max(1, byVehicle.size));
+
+  const findings: ReliabilityFinding[] = [];
+  for (const v of vehicles) {
+    if (v.increasing) findings.push({ vehicleId: v.vehicleId, text: describe(v, fleet, paretoByVehicle[v.vehicleId][0]) });
+  }
+  for (const s of subsystems) {
+    if (!s.increasing) continue;
+    const subPareto = paretoOf(byVehicle.get(s.vehicleId)!.filter(f => (f.subsystem || 'unspecified') === s.subsystem));
+    findings.push({ vehicleId: s.vehicleId, subsystem: s.subsystem, text: describe(s, fleet, subPareto[0]) });
+  }
+  findings.sort((a, b) => a.vehicleId.localeCompare(b.vehicleId) || (a.subsystem ?? '').localeCompare(b.subsystem ?? ''));
+
+  return {
+    asOf: ymdLocal(asOf),
+    windowStart: ymdLocal(new Date(start)),
+    windowDays,
+    fleet,
+    vehicles,
+    subsystems,
+    pareto: paretoOf(inWindow),
+    paretoByVehicle,
+    findings,
+  };
+}
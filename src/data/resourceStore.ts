@@ -1,5 +1,13 @@
 // src/data/resourceStore.ts
-import type { Technician, AvailabilitySlot, Skill } from '../types';
+// Technician roster and daily availability, loaded from the data source. Days the
+// source has no hours for come from the technician's shift pattern; leave and
+// public holidays zero a day; SET_AVAIL edits override everything.
+import type { Technician, AvailabilitySlot, Skill, LeaveRecord, PublicHoliday, ShiftPattern } from '../types';
+import { horizonDayKeys } from './planningHorizon';
+import { applyPartMutation } from './inventoryStore';
+import { getTechnicians, getAvailability, getLeave, getHolidays, getShifts, getWorkshop } from './adapter';
+import { setShiftDefinitions } from './shiftCalendar';
+import { setWorkshopResources } from './workshop';
 
 // Minimal mutation shape understood by applyMutations
 export type AgentMutation = { op: string; [k: string]: any };
@@ -7,46 +15,106 @@ export type AgentMutation = { op: string; [k: string]: any };
 // In-memory stores (shared across calls)
 let technicians: Technician[] = [];
 let availability: AvailabilitySlot[] = [];
+let imported = new Map<string, number>(); // `${techId}|YYYY-MM-DD` → hours from the source
+let leave: LeaveRecord[] = [];
+let holidays: PublicHoliday[] = [];
 let seeded = false;
+let version = 0;
+let snapshot: { version: number; value: { technicians: Technician[]; availability: AvailabilitySlot[] } } | null = null;
+const listeners = new Set<() => void>();
 
-const WEEK_START = new Date('2025-08-22T00:00:00');
-function ymdLocal(d: Date) {
-  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
-}
-function weekDays(start = WEEK_START, days = 7): string[] {
-  const out: string[] = [];
-  for (let i = 0; i < days; i++) {
-    const d = new Date(start);
-    d.setDate(start.getDate() + i);
-    out.push(ymdLocal(d));
+const DEFAULT_DAILY_HOURS = 8;
+const DAY_MS = 86_400_000;
+
+/** Rotating crews work 4 days on / 4 off, counted from this date */
+const ROTATION_ANCHOR = '2025-01-06';
+
+/** Hours a shift pattern works on a date: day and night crews Mon–Fri, rotating 4-on/4-off at 12 h. */
+export function shiftHours(shift: ShiftPattern | undefined, date: string): number {
+  const d = new Date(`${date}T00:00:00`);
+  const weekday = d.getDay() >= 1 && d.getDay() <= 5;
+  switch (shift) {
+    case 'day':
+    case 'night':
+      return weekday ? DEFAULT_DAILY_HOURS : 0;
+    case 'rotating': {
+      const n = Math.round((+d - +new Date(`${ROTATION_ANCHOR}T00:00:00`)) / DAY_MS);
+      return ((n % 8) + 8) % 8 < 4 ? 12 : 0;
+    }
+    default:
+      return DEFAULT_DAILY_HOURS;
   }
-  return out;
 }
 
-/** Seed a smaller, generic team once (Mechanic & AutoElec) with 8h/day availability. */
-export function reseedGenericTechnicians() {
+function notify() {
+  version++;
+  listeners.forEach(l => l());
+}
+
+export function subscribeResources(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** Bumps on every roster or availability change (useSyncExternalStore snapshot) */
+export function getResourceVersion(): number {
+  return version;
+}
+
+/** Load the roster, availability, leave, holidays, shift calendar and workshop registry from the data source once. */
+export function initResources() {
   if (seeded) return;
-  technicians = [
-    { id: 'T-M1', name: 'Alex Carter', skills: ['Mechanic'] as Skill[] },
-    { id: 'T-M2', name: 'Sam Morgan',  skills: ['Mechanic'] as Skill[] },
-    { id: 'T-E1', name: 'Jamie Lee',   skills: ['AutoElec'] as Skill[] },
-  ];
-  const days = weekDays(WEEK_START, 7);
+  technicians = getTechnicians();
+  imported = new Map(getAvailability().map(a => [`${a.technicianId}|${a.date}`, a.hours]));
+  leave = getLeave();
+  holidays = getHolidays();
+  setShiftDefinitions(getShifts());
+  setWorkshopResources(getWorkshop());
   availability = [];
-  for (const d of days) {
+  seeded = true;
+  ensureHorizonAvailability();
+}
+
+/** Hours (and why) for a technician on a day before any manual edit */
+function baseSlot(t: Technician, date: string): AvailabilitySlot {
+  const off = leave.find(l => l.technicianId === t.id && l.from <= date && date <= l.to);
+  if (off) return { technicianId: t.id, date, hours: 0, source: 'leave' };
+  const holiday = holidays.find(h => h.date === date && (!h.depot || h.depot === t.depot));
+  if (holiday) return { technicianId: t.id, date, hours: 0, source: 'holiday' };
+  const key = `${t.id}|${date}`;
+  if (imported.has(key)) return { technicianId: t.id, date, hours: imported.get(key)!, source: 'roster' };
+  return { technicianId: t.id, date, hours: shiftHours(t.shift, date), source: 'shift' };
+}
+
+/** Give every technician their rostered hours on planning-horizon days they have no slot for yet. */
+export function ensureHorizonAvailability() {
+  const have = new Set(availability.map(a => `${a.technicianId}|${a.date}`));
+  let added = 0;
+  for (const d of horizonDayKeys()) {
     for (const t of technicians) {
-      availability.push({ technicianId: t.id, date: d, hours: 8 });
+      if (have.has(`${t.id}|${d}`)) continue;
+      availability.push(baseSlot(t, d));
+      added++;
     }
   }
-  seeded = true;
+  if (added) notify();
+}
+
+/** Why a technician is off on a day, if they are (leave reason or holiday name) */
+export function absenceOn(technicianId: string, date: string): string | null {
+  const l = leave.find(x => x.technicianId === technicianId && x.from <= date && date <= x.to);
+  if (l) return l.reason ?? 'Leave';
+  const depot = technicians.find(t => t.id === technicianId)?.depot;
+  return holidays.find(h => h.date === date && (!h.depot || h.depot === depot))?.name ?? null;
 }
 
-/** Snapshot used by ResourceSummary and scheduler */
+/** Snapshot used by ResourceSummary and scheduler; the same object until the next change (useSyncExternalStore snapshot) */
 export function getResourceSnapshot(): { technicians: Technician[]; availability: AvailabilitySlot[] } {
-  return { technicians: [...technicians], availability: [...availability] };
+  if (snapshot?.version !== version) snapshot = { version, value: { technicians: [...technicians], availability: [...availability] } };
+  return snapshot.value;
 }
 
-/** Apply resource/parts mutations coming from the Scheduler Agent */
+/** Apply resource/parts mutations coming from the Scheduler Agent (parts go to the inventory store) */
 export function applyMutations(muts: AgentMutation[] = []): string[] {
   const notes: string[] = [];
   for (const m of muts) {
@@ -56,12 +124,17 @@ export function applyMutations(muts: AgentMutation[] = []): string[] {
       const id: string = m.id ?? `T-${Math.random().toString(36).slice(2, 7)}`;
       const name: string = m.name ?? 'New Tech';
       const skills: Skill[] = (Array.isArray(m.skills) && m.skills.length ? m.skills : ['Mechanic']) as Skill[];
-      technicians.push({ id, name, skills });
-      // default availability: 8h/day across the demo week
-      for (const d of weekDays(WEEK_START, 7)) {
-        availability.push({ technicianId: id, date: d, hours: Number(m.dailyHours ?? 8) });
+      const depot: string | undefined = m.depot ? String(m.depot) : undefined;
+      const shift: ShiftPattern | undefined = ['day', 'night', 'rotating'].includes(m.shift) ? m.shift : undefined;
+      const tech: Technician = { id, name, skills, ...(depot ? { depot } : {}), ...(shift ? { shift } : {}) };
+      technicians.push(tech);
+      // default availability across the planning horizon
+      for (const d of horizonDayKeys()) {
+        availability.push(m.dailyHours === undefined
+          ? baseSlot(tech, d)
+          : { technicianId: id, date: d, hours: Number(m.dailyHours), source: 'manual' });
       }
-      notes.push(`Added technician ${name} (${skills.join(', ')}) with default availability.`);
+      notes.push(`Added technician ${name} (${skills.join(', ')})${depot ? ` at ${depot}` : ''} with default availability.`);
       continue;
     }
 
@@ -76,27 +149,28 @@ export function applyMutations(muts: AgentMutation[] = []): string[] {
 
     if (op === 'SET_AVAIL') {
       const tid: string = m.technicianId;
-      const date: string = m.date;
-      const hours: number = Number(m.hours ?? 0);
+      const date: string = String(m.date ?? '').slice(0, 10);
+      const hours: number = Math.max(0, Number(m.hours ?? 0) || 0);
       if (!tid || !date) { notes.push('SET_AVAIL missing technicianId/date'); continue; }
-      let slot = availability.find(a => a.technicianId === tid && a.date === date);
-      if (!slot) {
-        slot = { technicianId: tid, date, hours: 0 };
-        availability.push(slot);
-      }
-      slot.hours = hours;
+      if (!technicians.some(t => t.id === tid)) { notes.push(`SET_AVAIL: ${tid} is not on the roster`); continue; }
+      // Replace rather than edit in place so snapshots taken earlier stay as they were
+      availability = [
+        ...availability.filter(a => !(a.technicianId === tid && a.date === date)),
+        { technicianId: tid, date, hours, source: 'manual' },
+      ];
       notes.push(`Set availability for ${tid} on ${date} to ${hours}h.`);
       continue;
     }
 
-    // Accept but no-op unknown/parts mutations (other stores may handle them)
-    if (op.startsWith('ADD_PART') || op.startsWith('SET_PART') || op.startsWith('REMOVE_PART')) {
-      notes.push(`(Parts store not modeled) Acknowledged ${op}.`);
+    // Parts live in the inventory store
+    if (op === 'ADD_PART' || op === 'SET_PART' || op === 'REMOVE_PART') {
+      notes.push(applyPartMutation({ ...m, op }));
       continue;
     }
 
     // Unhandled op
     notes.push(`Unknown mutation ${op} — ignored`);
   }
+  if (muts.length) notify();
   return notes;
 }
@@ -0,0 +1,121 @@
+// src/data/shiftCalendar.ts
+// When work can happen: shift windows per shift pattern, optionally narrowed to a
+// depot and/or skill. A window may cross midnight (19:00–05:00) and a shift may
+// have several windows a day (07:00–11:30 + 12:00–15:30). Hours available per
+// day stay in the resource store; this only says *when* those hours fall.
+import type { Technician, Skill, ShiftPattern } from '../types';
+import { ymdLocal } from '../utils/time';
+
+/** "HH:mm"; an end at or before the start runs into the next day */
+export type ShiftWindow = { start: string; end: string };
+
+export type ShiftDefinition = {
+  name: string;
+  /** Who it applies to; omitted keys match everyone, the most specific match wins */
+  shift?: ShiftPattern;
+  depot?: string;
+  skill?: Skill;
+  windows: ShiftWindow[];
+  /** Weekdays a window may open on (0 = Sunday); default every day */
+  days?: number[];
+};
+
+/** One concrete occurrence of a window */
+export type ShiftInstance = { start: Date; end: Date };
+
+const DAY_MS = 86_400_000;
+
+export const DEFAULT_SHIFT_DEFINITIONS: ShiftDefinition[] = [
+  { name: 'Workshop', windows: [{ start: '09:00', end: '17:00' }] },
+  { name: 'Day', shift: 'day', windows: [{ start: '09:00', end: '17:00' }] },
+  { name: 'Night', shift: 'night', windows: [{ start: '19:00', end: '05:00' }] },
+  { name: 'Rotating', shift: 'rotating', windows: [{ start: '06:00', end: '18:00' }] },
+];
+
+let definitions: ShiftDefinition[] = DEFAULT_SHIFT_DEFINITIONS;
+
+export function getShiftDefinitions(): ShiftDefinition[] {
+  return definitions;
+}
+
+/** Replace the calendar (e.g. from the data source); an empty list restores the defaults. */
+export function setShiftDefinitions(defs: ShiftDefinition[]) {
+  definitions = defs.length ? defs : DEFAULT_SHIFT_DEFINITIONS;
+}
+
+/** [9, 17] → one 09:00–17:00 window (the policy's explicit business hours) */
+export function windowFromHours([open, close]: [number, number]): ShiftWindow {
+  const hhmm = (h: number) => `${String(Math.floor(h)).padStart(2, '0')}:${String(Math.round((h % 1) * 60)).padStart(2, '0')}`;
+  return { start: hhmm(open), end: hhmm(close) };
+}
+
+export function windowLabel(w: ShiftWindow): string {
+  return `${w.start}–${w.end}`;
+}
+
+/** Windows the technician works, for a seat needing `skill` (most specific definition wins). */
+export function shiftWindowsFor(
+  tech: Pick<Technician, 'shift' | 'depot' | 'skills'>,
+  skill?: Skill,
+  defs: ShiftDefinition[] = definitions
+): { windows: ShiftWindow[]; days?: number[] } {
+  let best: ShiftDefinition[] = [];
+  let bestScore = -1;
+  for (const d of defs) {
+    if (d.shift && d.shift !== tech.shift) continue;
+    if (d.depot && d.depot !== tech.depot) continue;
+    if (d.skill && d.skill !== skill && !(skill === undefined && tech.skills.includes(d.skill))) continue;
+    const score = (d.shift ? 1 : 0) + (d.depot ? 2 : 0) + (d.skill ? 2 : 0);
+    if (score > bestScore) { best = [d]; bestScore = score; } else if (score === bestScore) best.push(d);
+  }
+  if (!best.length) return { windows: DEFAULT_SHIFT_DEFINITIONS[0].windows };
+  const days = best.every(d => d.days) ? [...new Set(best.flatMap(d => d.days!))] : undefined;
+  return { windows: best.flatMap(d => d.windows), ...(days ? { days } : {}) };
+}
+
+function at(day: Date, hhmm: string): Date {
+  const [h, m] = hhmm.split(':').map(Number);
+  const x = new Date(day);
+  x.setHours(h || 0, m || 0, 0, 0);
+  return x;
+}
+
+/** Window occurrences overlapping [from, to), in start order (includes last night's shift running past midnight). */
+export function shiftInstances(windows: ShiftWindow[], from: Date, to: Date, days?: number[]): ShiftInstance[] {
+  const out: ShiftInstance[] = [];
+  const first = new Date(+from - DAY_MS);
+  first.setHours(0, 0, 0, 0);
+  for (let day = first; day < to; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    if (days && !days.includes(day.getDay())) continue;
+    for (const w of windows) {
+      const start = at(day, w.start);
+      let end = at(day, w.end);
+      if (end <= start) end = new Date(end.getFullYear(), end.getMonth(), end.getDate() + 1, end.getHours(), end.getMinutes());
+      if (end > from && start < to) out.push({ start, end });
+    }
+  }
+  return out.sort((a, b) => +a.start - +b.start);
+}
+
+/** The occurrence containing [s, e], if any */
+export function instanceContaining(instances: ShiftInstance[], s: Date, e: Date): ShiftInstance | undefined {
+  return instances.find(i => i.start <= s && e <= i.end);
+}
+
+/** Calendar day an occurrence belongs to (a night shift counts against the day it starts) */
+export function shiftDay(i: ShiftInstance): string {
+  return ymdLocal(i.start);
+}
+
+/**
+ * Earliest start at or after `start` where `durationH` fits inside one window,
+ * looking up to two weeks ahead; unchanged when nothing fits.
+ */
+export function clampToShift(start: Date, durationH: number, windows: ShiftWindow[], days?: number[]) {
+  const ms = durationH * 3_600_000;
+  for (const i of shiftInstances(windows, start, new Date(+start + 14 * DAY_MS), days)) {
+    const s = new Date(Math.max(+i.start, +start));
+    if (+s + ms <= +i.end) return { s, e: new Date(+s + ms) };
+  }
+  return { s: start, e: new Date(+start + ms) };
+}
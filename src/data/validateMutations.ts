@@ -0,0 +1,205 @@
+// src/data/validateMutations.ts
+// Runtime check of a mutation batch (from an agent, before anything is applied):
+// the op and its fields, ids that must exist, dates inside the planning horizon,
+// priorities and skills from our unions. A batch that passes is then dry-run
+// through applyMutationsToPlan, so lifecycle rules (a Closed job can't move) are
+// caught too. Callers apply all of a batch or none of it.
+import type { OpsTask, Priority, WorkOrder } from '../types';
+import { applyMutationsToPlan, buildOpsIndex, normalizeSkill, resolveOpsIndex } from './mutatePlan';
+import type { Mutation } from './mutatePlan';
+import { getVehicles } from './adapter';
+import { getResourceSnapshot } from './resourceStore';
+import { getInventory } from './inventoryStore';
+import { getHorizon, snapToHorizonYear } from './planningHorizon';
+import type { PlanningHorizon } from './planningHorizon';
+
+export type MutationPlan = {
+  workorders: WorkOrder[];
+  opsTasks: OpsTask[];
+  /** Defaults: the loaded fleet, roster, inventory and horizon */
+  vehicleIds?: string[];
+  technicianIds?: string[];
+  partIds?: string[];
+  horizon?: PlanningHorizon;
+};
+
+export type MutationCheck = {
+  /** Normalized (`type`, `hours`, canonical ids); only safe to apply when `errors` is empty */
+  mutations: Mutation[];
+  errors: string[];
+};
+
+type RawRecord = Record<string, unknown>;
+
+const FIELDS: Record<Mutation['type'], string[]> = {
+  MOVE_WO: ['id', 'start', 'end', 'hours', 'demandHours', 'vehicleId'],
+  CANCEL_WO: ['id'],
+  SET_WO_STATUS: ['id', 'status', 'reason'],
+  ASSIGN_CREW: ['id', 'technicianIds', 'crew'],
+  MOVE_OPS: ['id', 'start', 'end', 'hours', 'demandHours'],
+  CANCEL_OPS: ['id'],
+  ADD_WO: ['vehicleId', 'title', 'subsystem', 'hours', 'demandHours', 'requiredSkills', 'crew', 'parts', 'priority', 'start'],
+};
+// Keyed by the union so a new priority can't be left out
+const PRIORITY_KEYS: Record<Priority, true> = { Low: true, Medium: true, High: true, Critical: true };
+const PRIORITIES = Object.keys(PRIORITY_KEYS) as Priority[];
+const DAY_MS = 86_400_000;
+
+const isOp = (op: unknown): op is Mutation['type'] => typeof op === 'string' && op in FIELDS;
+const fmtDay = (d: Date) => d.toLocaleDateString(undefined, { day: '2-digit', month: 'short', year: 'numeric' });
+
+export function validateMutations(raw: unknown, plan: MutationPlan): MutationCheck {
+  const errors: string[] = [];
+  const mutations: Mutation[] = [];
+  if (!Array.isArray(raw) || !raw.length) return { mutations, errors: ['"mutations" must be a non-empty array'] };
+
+  const h = plan.horizon ?? getHorizon();
+  const woIds = new Map(plan.workorders.map(w => [w.id.toUpperCase(), w.id]));
+  const opsIdx = buildOpsIndex(plan.opsTasks);
+  const vehicles = new Map((plan.vehicleIds ?? getVehicles().map(v => v.id)).map(id => [id.toUpperCase(), id]));
+  const techs = new Map((plan.technicianIds ?? getResourceSnapshot().technicians.map(t => t.id)).map(id => [id.toUpperCase(), id]));
+  const parts = new Set(plan.partIds ?? getInventory().items.map(i => i.partId));
+
+  raw.forEach((item, i) => {
+    const problems: string[] = [];
+    const m = (item && typeof item === 'object' ? item : {}) as RawRecord;
+    const rawOp = m.type ?? m.op;
+    const op = typeof rawOp === 'string' ? rawOp.trim().toUpperCase() : rawOp;
+    const where = `#${i + 1} ${isOp(op) ? op : String(op ?? '(no op)')}`;
+    if (!isOp(op)) {
+      errors.push(`${where}: unknown op; expected one of ${Object.keys(FIELDS).join(', ')}`);
+      return;
+    }
+
+    const extra = Object.keys(m).filter(k => k !== 'op' && k !== 'type' && !FIELDS[op].includes(k));
+    if (extra.length) problems.push(`unknown field${extra.length > 1 ? 's' : ''} ${extra.join(', ')}`);
+
+    const str = (k: string) => (typeof m[k] === 'string' && (m[k] as string).trim() ? (m[k] as string).trim() : undefined);
+    const ref = (ids: Map<string, string>, what: string, k: string) => {
+      const v = str(k);
+      if (!v) { problems.push(`"${k}" is required`); return ''; }
+      const id = ids.get(v.toUpperCase());
+      if (!id) problems.push(`${what} ${v} does not exist`);
+      return id ?? v;
+    };
+    const date = (k: string, opts: { end?: boolean } = {}) => {
+      if (m[k] === undefined || m[k] === null) return undefined;
+      const d = typeof m[k] === 'string' ? snapToHorizonYear(new Date(m[k] as string), h, m[k] as string) : null;
+      if (!d || isNaN(+d)) { problems.push(`"${k}" is not a date (${String(m[k])})`); return undefined; }
+      const ok = opts.end ? d > h.start && +d <= +h.end + DAY_MS : d >= h.start && d < h.end;
+      if (!ok) problems.push(`"${k}" ${m[k]} is outside the planning horizon (${fmtDay(h.start)} – ${fmtDay(new Date(+h.end - DAY_MS))})`);
+      return m[k] as string;
+    };
+    const hours = () => {
+      const v = m.hours ?? m.demandHours;
+      if (v === undefined || v === null) return undefined;
+      const n = Number(v);
+      if (!Number.isFinite(n) || n <= 0 || n > h.days * 24) { problems.push(`"hours" must be between 0 and ${h.days * 24} (got ${String(v)})`); return undefined; }
+      return n;
+    };
+    const crew = () => {
+      if (m.crew === undefined) return undefined;
+      if (!Array.isArray(m.crew)) { problems.push('"crew" must be an array of { skill, count }'); return undefined; }
+      for (const c of m.crew as RawRecord[]) {
+        if (!normalizeSkill(c?.skill)) problems.push(`unknown crew skill ${String(c?.skill)}`);
+        if (c?.count !== undefined && !(Number.isInteger(Number(c.count)) && Number(c.count) >= 1)) problems.push(`crew count must be a whole number ≥ 1 (got ${String(c.count)})`);
+      }
+      return m.crew as Array<{ skill: string; count?: number }>;
+    };
+
+    let out: Mutation | null = null;
+    switch (op) {
+      case 'MOVE_WO': {
+        const id = ref(woIds, 'work order', 'id');
+        const start = date('start');
+        const end = date('end', { end: true });
+        if (start && end && +new Date(end) <= +new Date(start)) problems.push('"end" is not after "start"');
+        const vehicleId = m.vehicleId === undefined ? undefined : ref(vehicles, 'vehicle', 'vehicleId');
+        out = { type: op, id, start, end, hours: hours(), ...(vehicleId ? { vehicleId } : {}) };
+        break;
+      }
+      case 'MOVE_OPS': {
+        const id = str('id') ?? '';
+        if (!id) problems.push('"id" is required');
+        else if (resolveOpsIndex(opsIdx, id) < 0) problems.push(`ops task ${id} does not exist`);
+        out = { type: op, id, start: date('start'), end: date('end', { end: true }), hours: hours() };
+        break;
+      }
+      case 'CANCEL_WO':
+        out = { type: op, id: ref(woIds, 'work order', 'id') };
+        break;
+      case 'CANCEL_OPS': {
+        const id = str('id') ?? '';
+        if (!id) problems.push('"id" is required');
+        else if (resolveOpsIndex(opsIdx, id) < 0) problems.push(`ops task ${id} does not exist`);
+        out = { type: op, id };
+        break;
+      }
+      case 'SET_WO_STATUS': {
+        const id = ref(woIds, 'work order', 'id');
+        const status = str('status');
+        if (!status) problems.push('"status" is required');
+        out = { type: op, id, status: status ?? '', ...(str('reason') ? { reason: str('reason') } : {}) };
+        break;
+      }
+      case 'ASSIGN_CREW': {
+        const id = ref(woIds, 'work order', 'id');
+        const list = Array.isArray(m.technicianIds) ? m.technicianIds.map(String) : null;
+        if (!list?.length) problems.push('"technicianIds" must be a non-empty array');
+        const technicianIds = (list ?? []).map(t => {
+          const found = techs.get(t.toUpperCase());
+          if (!found) problems.push(`technician ${t} is not on the roster`);
+          return found ?? t;
+        });
+        const c = crew();
+        out = { type: op, id, technicianIds, ...(c ? { crew: c } : {}) };
+        break;
+      }
+      case 'ADD_WO': {
+        const vehicleId = ref(vehicles, 'vehicle', 'vehicleId');
+        const title = str('title');
+        if (!title) problems.push('"title" is required');
+        let priority: WorkOrder['priority'] | undefined;
+        if (m.priority !== undefined) {
+          priority = PRIORITIES.find(p => p.toLowerCase() === String(m.priority).trim().toLowerCase());
+          if (!priority) problems.push(`priority must be ${PRIORITIES.join(', ')} (got ${String(m.priority)})`);
+        }
+        let requiredSkills: string[] | undefined;
+        if (m.requiredSkills !== undefined) {
+          if (!Array.isArray(m.requiredSkills)) problems.push('"requiredSkills" must be an array');
+          else {
+            requiredSkills = m.requiredSkills.map(String);
+            requiredSkills.filter(s => !normalizeSkill(s)).forEach(s => problems.push(`unknown skill ${s}`));
+          }
+        }
+        let partLines: Array<{ partId: string; qty?: number }> | undefined;
+        if (m.parts !== undefined) {
+          if (!Array.isArray(m.parts)) problems.push('"parts" must be an array of { partId, qty }');
+          else {
+            partLines = (m.parts as RawRecord[]).map(p => ({ partId: String(p?.partId ?? ''), ...(p?.qty !== undefined ? { qty: Number(p.qty) } : {}) }));
+            for (const p of partLines) {
+              if (!parts.has(p.partId)) problems.push(`part ${p.partId || '(blank)'} is not in the catalog`);
+              if (p.qty !== undefined && !(Number.isFinite(p.qty) && p.qty > 0)) problems.push(`qty for ${p.partId} must be positive`);
+            }
+          }
+        }
+        const c = crew();
+        out = {
+          type: op, vehicleId, title: title ?? '', subsystem: str('subsystem'), hours: hours(), start: date('start'),
+          ...(priority ? { priority } : {}), ...(requiredSkills ? { requiredSkills } : {}),
+          ...(c ? { crew: c } : {}), ...(partLines ? { parts: partLines } : {}),
+        };
+        break;
+      }
+    }
+
+    if (problems.length) errors.push(`${where}${m.id ? ` ${String(m.id)}` : ''}: ${problems.join('; ')}`);
+    else if (out) mutations.push(Object.fromEntries(Object.entries(out).filter(([, v]) => v !== undefined)) as Mutation);
+  });
+
+  if (errors.length) return { mutations, errors };
+
+  // Lifecycle and crew rules live in the apply step; a dry run surfaces them
+  const { rejected } = applyMutationsToPlan(plan.workorders, plan.opsTasks, mutations);
+  return { mutations, errors: rejected };
+}
@@ -0,0 +1,88 @@
+// src/data/vehicleStatus.ts
+// Vehicle status derived live from the plan rather than read from vehicles.json.
+// The rules are the ones scripts/fixData.cjs enforces on the fixtures, plus
+// PM due state and condition bands:
+//   DOWN  — an active High/Critical Corrective WO, or a subsystem at the failure limit
+//   DUE   — a PM WO in the shop or booked within pmLeadDays, a PM due/overdue in
+//           the window, or a subsystem in Poor
+//   AVAILABLE otherwise
+import type { Vehicle, VehicleStatus, WorkOrder, ConditionBand } from '../types';
+import { computePmStatus } from './pmEngine';
+import type { PmOptions } from './pmEngine';
+import { isActive } from './woLifecycle';
+import { FAILURE_LIMIT } from './conditionMonitor';
+import { getHorizon } from './planningHorizon';
+
+const DAY_MS = 86_400_000;
+
+/** Latest condition per vehicle × subsystem (e.g. ConditionForecast) */
+export type ConditionReading = { vehicleId: string; subsystem: string; latest: number; band: ConditionBand };
+
+export type VehicleStatusOptions = PmOptions & {
+  condition?: ConditionReading[];
+  /**
+   * Booked PM work marks a vehicle DUE only this close to its start (default 2 days).
+   * Almost every vehicle has some PM in a 7-day window, so the full window would
+   * leave nothing AVAILABLE; PMs further out surface through the PM engine instead.
+   */
+  pmLeadDays?: number;
+};
+
+const inWindow = (iso: string | undefined, start: number, end: number) => {
+  if (!iso) return false;
+  const t = +new Date(iso);
+  return t >= start && t < end;
+};
+
+/** Recompute status (and statusReasons) for every vehicle; unchanged vehicles keep their identity. */
+export function deriveVehicleStatus(vehicles: Vehicle[], workorders: WorkOrder[], opts: VehicleStatusOptions = {}): Vehicle[] {
+  const asOf = opts.asOf ?? getHorizon().start;
+  const start = +asOf;
+  const pmEnd = start + (opts.pmLeadDays ?? 2) * DAY_MS;
+
+  const pmDue = new Map<string, string[]>();
+  for (const s of computePmStatus(vehicles, workorders, opts)) {
+    if (s.state === 'OK') continue;
+    if (!pmDue.has(s.vehicleId)) pmDue.set(s.vehicleId, []);
+    pmDue.get(s.vehicleId)!.push(`PM ${s.state === 'OVERDUE' ? 'overdue' : 'due'}: ${s.title} (${s.dueDate})`);
+  }
+
+  const woByVehicle = new Map<string, WorkOrder[]>();
+  for (const w of workorders) {
+    if (!isActive(w.status)) continue;
+    if (!woByVehicle.has(w.vehicleId)) woByVehicle.set(w.vehicleId, []);
+    woByVehicle.get(w.vehicleId)!.push(w);
+  }
+
+  const condByVehicle = new Map<string, ConditionReading[]>();
+  for (const c of opts.condition ?? []) {
+    if (!condByVehicle.has(c.vehicleId)) condByVehicle.set(c.vehicleId, []);
+    condByVehicle.get(c.vehicleId)!.push(c);
+  }
+
+  return vehicles.map(v => {
+    const wos = woByVehicle.get(v.id) ?? [];
+    const cond = condByVehicle.get(v.id) ?? [];
+
+    const down = [
+      ...wos
+        .filter(w => w.type === 'Corrective' && (w.priority === 'High' || w.priority === 'Critical'))
+        .map(w => `${w.priority} corrective ${w.id}: ${w.title} (${w.status})`),
+      ...cond.filter(c => c.latest <= FAILURE_LIMIT).map(c => `${c.subsystem} condition ${c.latest} at failure limit`),
+    ];
+    const due = [
+      ...wos
+        .filter(w => w.type === 'Preventive' && (w.status === 'In Progress' || (w.status === 'Scheduled' && inWindow(w.start, start, pmEnd))))
+        .map(w => `PM ${w.status === 'In Progress' ? 'in progress' : 'booked'}: ${w.id} ${w.title}`),
+      ...(pmDue.get(v.id) ?? []),
+      ...cond.filter(c => c.band === 'Poor' && c.latest > FAILURE_LIMIT).map(c => `${c.subsystem} condition Poor (${c.latest})`),
+    ];
+
+    const status: VehicleStatus = down.length ? 'DOWN' : due.length ? 'DUE' : 'AVAILABLE';
+    const statusReasons = down.length ? down : due;
+    const same = status === v.status &&
+      (v.statusReasons ?? []).length === statusReasons.length &&
+      (v.statusReasons ?? []).every((r, i) => r === statusReasons[i]);
+    return same ? v : { ...v, status, statusReasons };
+  });
+}
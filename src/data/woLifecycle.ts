@@ -0,0 +1,93 @@
+// src/data/woLifecycle.ts
+// Work order state machine: which status changes are legal, and what a
+// reschedule does to each status.
+import type { WorkOrder, WorkOrderStatus } from '../types';
+
+export const WO_STATUSES: WorkOrderStatus[] = [
+  'Open', 'Scheduled', 'In Progress', 'On Hold', 'Awaiting Parts', 'Closed', 'Cancelled',
+];
+
+const TRANSITIONS: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  'Open':           ['Scheduled', 'In Progress', 'On Hold', 'Awaiting Parts', 'Cancelled'],
+  'Scheduled':      ['Open', 'In Progress', 'On Hold', 'Awaiting Parts', 'Cancelled'],
+  'In Progress':    ['On Hold', 'Awaiting Parts', 'Closed'],
+  'On Hold':        ['Open', 'Scheduled', 'In Progress', 'Cancelled'],
+  'Awaiting Parts': ['Open', 'Scheduled', 'In Progress', 'Cancelled'],
+  'Closed':         [],
+  'Cancelled':      ['Open'],
+};
+
+export function allowedTransitions(from: WorkOrderStatus): WorkOrderStatus[] {
+  return TRANSITIONS[from] ?? [];
+}
+
+export function canTransition(from: WorkOrderStatus, to: WorkOrderStatus): boolean {
+  return from === to || allowedTransitions(from).includes(to);
+}
+
+/** Human-readable reason a transition is refused, or null when it is legal. */
+export function transitionError(id: string, from: WorkOrderStatus, to: WorkOrderStatus): string | null {
+  if (canTransition(from, to)) return null;
+  const allowed = allowedTransitions(from);
+  return `${id} is ${from} — cannot change to ${to}` +
+    (allowed.length ? ` (allowed: ${allowed.join(', ')})` : ' (final state)');
+}
+
+/** No further work will happen. */
+export function isTerminal(s: WorkOrderStatus) {
+  return s === 'Closed' || s === 'Cancelled';
+}
+
+/** Still part of the maintenance backlog (includes paused work). */
+export function isActive(s: WorkOrderStatus) {
+  return !isTerminal(s);
+}
+
+/** Paused: keeps its record but should not hold a vehicle or technician. */
+export function isPaused(s: WorkOrderStatus) {
+  return s === 'On Hold' || s === 'Awaiting Parts';
+}
+
+/** Give up the slot, crew and workshop resources (back to the backlog, paused or cancelled). */
+export function releaseSlot(w: WorkOrder) {
+  w.start = undefined;
+  w.end = undefined;
+  w.technicianId = undefined;
+  w.assignments = undefined;
+  w.resourceClaims = undefined;
+}
+
+/**
+ * Status after a reschedule (MOVE_WO, drag in the Gantt), or null if the work
+ * order can't be moved. Work already under way keeps its status; parts holds
+ * stay until the parts arrive.
+ */
+export function statusAfterMove(s: WorkOrderStatus): WorkOrderStatus | null {
+  switch (s) {
+    case 'Open':
+    case 'Scheduled':
+    case 'On Hold':
+      return 'Scheduled';
+    case 'In Progress':
+    case 'Awaiting Parts':
+      return s;
+    default:
+      return null;
+  }
+}
+
+const STATUS_ALIASES: Record<string, WorkOrderStatus> = {
+  'open': 'Open', 'new': 'Open', 'requested': 'Open',
+  'scheduled': 'Scheduled', 'planned': 'Scheduled',
+  'in progress': 'In Progress', 'inprogress': 'In Progress', 'started': 'In Progress', 'wip': 'In Progress',
+  'on hold': 'On Hold', 'onhold': 'On Hold', 'hold': 'On Hold',
+  'awaiting parts': 'Awaiting Parts', 'waiting parts': 'Awaiting Parts', 'waiting for parts': 'Awaiting Parts', 'awaitingparts': 'Awaiting Parts',
+  'closed': 'Closed', 'complete': 'Closed', 'completed': 'Closed', 'done': 'Closed',
+  'cancelled': 'Cancelled', 'canceled': 'Cancelled',
+};
+
+/** Map CMMS / agent spellings ("completed", "on_hold", …) onto the lifecycle; null if unknown. */
+export function normalizeStatus(raw: unknown): WorkOrderStatus | null {
+  const key = String(raw ?? '').trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+  return STATUS_ALIASES[key] ?? null;
+}
@@ -0,0 +1,178 @@
+// src/data/workshop.ts
+// Workshop bays, lifts and scarce tools, with how many each depot has. A job
+// needs a bay at its vehicle's depot, a lift when its subsystem calls for one,
+// and one of every registered tool in its requiredTools; tools nobody registered
+// (flashlights, pliers) are treated as unlimited. Resources without a depot are
+// one shared pool for the whole fleet (e.g. a single ECU programmer).
+import type { WorkOrder } from '../types';
+import { isPaused, isTerminal } from './woLifecycle';
+
+export type WorkshopResourceKind = 'bay' | 'lift' | 'tool';
+
+export type WorkshopResource = {
+  id: string;
+  name: string;
+  kind: WorkshopResourceKind;
+  /** Omitted = shared by every depot */
+  depot?: string;
+  /** Jobs it can hold at once */
+  qty: number;
+  /** Lifts: subsystems whose work needs one */
+  subsystems?: string[];
+};
+
+/** One thing a job needs; any of `options` will do */
+export type ResourceNeed = { label: string; options: WorkshopResource[] };
+
+export type ResourceBooking = {
+  woId: string;
+  vehicleId: string;
+  start: string;
+  end: string;
+  /** Unit the job sits on (0-based); qty or more = over capacity */
+  unit: number;
+};
+
+export type ResourceLane = {
+  resource: WorkshopResource;
+  bookings: ResourceBooking[];
+  /** Most jobs on it at once */
+  peak: number;
+};
+
+type Interval = { s: number; e: number };
+
+let registry: WorkshopResource[] = [];
+const listeners = new Set<() => void>();
+
+/** Same array until the registry is replaced (useSyncExternalStore snapshot) */
+export function getWorkshopResources(): WorkshopResource[] {
+  return registry;
+}
+
+/** Replace the registry (e.g. from the data source); empty = no bay or tool limits. */
+export function setWorkshopResources(next: WorkshopResource[]) {
+  registry = next;
+  listeners.forEach(l => l());
+}
+
+export function subscribeWorkshop(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+const key = (s: string) => s.trim().toLowerCase();
+const atDepot = (r: WorkshopResource, depot?: string) => !r.depot || !depot || r.depot === depot;
+
+/**
+ * What `w` needs at `depot`. `missing` lists needs the depot can't meet at all
+ * (a registered tool only other depots have, or no bay there).
+ */
+export function resourceNeeds(
+  w: Pick<WorkOrder, 'subsystem' | 'requiredTools'>,
+  depot: string | undefined,
+  resources: WorkshopResource[] = registry
+): { needs: ResourceNeed[]; missing: string[] } {
+  const needs: ResourceNeed[] = [];
+  const missing: string[] = [];
+  const require = (label: string, pool: WorkshopResource[]) => {
+    if (!pool.length) return;
+    const here = pool.filter(r => atDepot(r, depot) && r.qty > 0);
+    if (here.length) needs.push({ label, options: here });
+    else missing.push(depot ? `${label} at ${depot}` : label);
+  };
+
+  require('bay', resources.filter(r => r.kind === 'bay'));
+  const sub = w.subsystem ? key(w.subsystem) : '';
+  if (sub) {
+    require(`${sub} lift`, resources.filter(r => r.kind === 'lift' && r.subsystems?.some(x => key(x) === sub)));
+  }
+  for (const tool of new Set((w.requiredTools ?? []).map(key))) {
+    const pool = resources.filter(r => r.kind === 'tool' && key(r.name) === tool);
+    require(pool[0]?.name ?? tool, pool);
+  }
+  return { needs, missing };
+}
+
+function unitsInUse(busy: Map<string, Interval[]>, id: string, s: number, e: number) {
+  return (busy.get(id) ?? []).filter(iv => iv.s < e && s < iv.e).length;
+}
+
+/**
+ * One free resource per need for [s, e), given what's already booked in `busy`
+ * (resource id → intervals); otherwise the first need that's fully taken.
+ */
+export function pickResources(
+  needs: ResourceNeed[],
+  busy: Map<string, Interval[]>,
+  s: number,
+  e: number
+): { ids: string[] } | { blocked: ResourceNeed } {
+  const ids: string[] = [];
+  for (const need of needs) {
+    const free = need.options.find(r => unitsInUse(busy, r.id, s, e) < r.qty);
+    if (!free) return { blocked: need };
+    ids.push(free.id);
+  }
+  return { ids };
+}
+
+export function bookResources(busy: Map<string, Interval[]>, ids: string[], s: number, e: number) {
+  for (const id of ids) {
+    if (!busy.has(id)) busy.set(id, []);
+    busy.get(id)!.push({ s, e });
+  }
+}
+
+/** "bay (2 at North)" / "ECU Programmer (1 shared)" */
+export function needLabel(need: ResourceNeed): string {
+  const qty = need.options.reduce((n, r) => n + r.qty, 0);
+  const depots = [...new Set(need.options.map(r => r.depot ?? 'shared'))];
+  return `${need.label} (${qty} ${depots.length === 1 && depots[0] === 'shared' ? 'shared' : `at ${depots.join('/')}`})`;
+}
+
+/**
+ * Resources a scheduled job holds: its own claims while they still fit its
+ * depot, else the first free ones in start order (manually placed work).
+ */
+export function resourceOccupancy(
+  workorders: WorkOrder[],
+  depotOf: (vehicleId: string) => string | undefined,
+  resources: WorkshopResource[] = registry
+): ResourceLane[] {
+  const byId = new Map(resources.map(r => [r.id, r]));
+  const lanes = new Map(resources.map(r => [r.id, [] as Array<Interval & { w: WorkOrder }>]));
+  const busy = new Map<string, Interval[]>();
+
+  const live = workorders
+    .filter(w => w.start && w.end && !isTerminal(w.status) && !isPaused(w.status))
+    .map(w => ({ w, s: +new Date(w.start!), e: +new Date(w.end!) }))
+    .filter(x => !isNaN(x.s) && !isNaN(x.e))
+    .sort((a, b) => a.s - b.s || a.w.id.localeCompare(b.w.id));
+
+  for (const { w, s, e } of live) {
+    const depot = depotOf(w.vehicleId);
+    const { needs } = resourceNeeds(w, depot, resources);
+    const own = w.resourceClaims?.filter(id => byId.has(id) && atDepot(byId.get(id)!, depot));
+    // Over capacity still lands on a resource so the lane shows the clash
+    const ids = own && own.length === needs.length
+      ? own
+      : needs.map(n => (n.options.find(r => unitsInUse(busy, r.id, s, e) < r.qty) ?? n.options[0]).id);
+    bookResources(busy, ids, s, e);
+    ids.forEach(id => lanes.get(id)?.push({ w, s, e }));
+  }
+
+  return resources
+    .map(resource => {
+      const units: number[] = []; // end time per unit
+      let peak = 0;
+      const bookings = (lanes.get(resource.id) ?? []).map(({ w, s, e }) => {
+        let unit = units.findIndex(end => end <= s);
+        if (unit < 0) unit = units.length;
+        units[unit] = e;
+        peak = Math.max(peak, units.filter(end => end > s).length);
+        return { woId: w.id, vehicleId: w.vehicleId, start: w.start!, end: w.end!, unit };
+      });
+      return { resource, bookings, peak };
+    });
+}
@@ -1,10 +1,15 @@
 // src/pages/Dashboard.tsx
-import { useEffect, useMemo, useState } from 'react';
-import { getVehicles, getWorkOrders, getOpsTasks } from '../data/adapter';
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { getVehicles, getWorkOrders, getOpsTasks, getFailures, getCondition } from '../data/adapter';
 import VehicleGallery from '../components/VehicleGallery';
 import GanttWeek from '../components/GanttWeek';
 import WorkOrdersModal from '../components/WorkOrdersModal';
 import { applyMutationsToPlan } from '../data/mutatePlan';
+import type { Mutation } from '../data/mutatePlan';
+import { validateMutations } from '../data/validateMutations';
+import { stageChanges, changeImpact } from '../data/changeReview';
+import type { StagedChange } from '../data/changeReview';
+import MutationReview from '../components/MutationReview';
 import { Kpi } from '../components/Kpis';
 import Agents from '../components/Agents';
 import type { AgentKey, SchedulerPolicy, ReportQuery, QATurn, AgentDecision, PlanContext } from '../types';
@@ -13,11 +18,48 @@ import DemandSummary from '../components/DemandSummary';
 import { proposeSchedule } from '../agents/scheduler';
 import AgentConsole from '../components/AgentConsole';
 import { analyzeWithLLM, helloSchedulerFact } from '../agents/agentRuntime';
+import { parseCommand } from '../agents/commandParser';
 import { buildKnowledgePack } from '../agents/context';
 import { buildReliabilityPack, analyzeReliabilityWithLLM, helloReliabilityFact } from '../agents/reliability';
 import { buildPartsPack, analyzePartsWithLLM } from '../agents/parts';
-import { reseedGenericTechnicians } from '../data/resourceStore';
+import { agentApiBase, askAgent } from '../agents/agentApi';
+import {
+  initResources, ensureHorizonAvailability, applyMutations, subscribeResources, getResourceSnapshot,
+} from '../data/resourceStore';
+import { shiftWindowsFor, clampToShift, windowFromHours, DEFAULT_SHIFT_DEFINITIONS } from '../data/shiftCalendar';
 import DemoFooter from '../components/DemoFooter';
+import { generatePmWorkOrders, computePmStatus } from '../data/pmEngine';
+import { deriveVehicleStatus } from '../data/vehicleStatus';
+import {
+  initPlanStore, subscribePlanStore, getCurrentVersion, commitPlan,
+  undoPlan, redoPlan, restorePlan, renamePlanVersion,
+} from '../data/planStore';
+import type { PlanSummary } from '../data/planStore';
+import PlanVersions from '../components/PlanVersions';
+import AuditTrail from '../components/AuditTrail';
+import { getAuditLog, subscribeAuditLog } from '../data/auditLog';
+import { isActive } from '../data/woLifecycle';
+import InventoryPanel from '../components/InventoryPanel';
+import { getInventory, subscribeInventory, syncReservations, partsReadinessFor } from '../data/inventoryStore';
+import PurchaseOrderPanel from '../components/PurchaseOrderPanel';
+import ReliabilityPanel from '../components/ReliabilityPanel';
+import { analyzeReliability } from '../data/reliabilityAnalytics';
+import SpikeAlerts from '../components/SpikeAlerts';
+import { detectFailureSpikes, inspectionCampaign } from '../data/failureSpikes';
+import type { SpikeAlert } from '../data/failureSpikes';
+import ConditionMonitor from '../components/ConditionMonitor';
+import VehicleDrawer from '../components/VehicleDrawer';
+import {
+  forecastCondition, conditionTriggers, conditionWorkOrders, predictedFailures, claimAutoRaise,
+} from '../data/conditionMonitor';
+import {
+  getDraftPO, subscribeDraftPO, setDraftPO, updatePoLine, removePoLine, consolidateDemand, draftFromShortfalls,
+} from '../data/purchaseOrders';
+import {
+  getHorizon, subscribeHorizon, shiftHorizon, goToToday, setHorizonDays,
+} from '../data/planningHorizon';
+import { getDepotSettings, subscribeDepotSettings, setCrossDepotTravelHours, listDepots } from '../data/depots';
+import { getWorkshopResources, resourceOccupancy, subscribeWorkshop } from '../data/workshop';
 
 /** ========= Local helpers (duration preserving, date range parsing) ========= */
 
@@ -26,29 +68,6 @@ function isoLocal(d: Date): string {
   const t = new Date(d.getTime() - d.getTimezoneOffset() * 60000);
   return t.toISOString().replace('Z', '');
 }
-function addHours(d: Date, hrs: number) {
-  return new Date(d.getTime() + hrs * 3_600_000);
-}
-function setHMS(d: Date, h: number, m = 0, s = 0, ms = 0) {
-  const x = new Date(d);
-  x.setHours(h, m, s, ms);
-  return x;
-}
-function clampStartPreservingDuration(start: Date, durationH: number, open = 9, close = 17) {
-  const dayOpen = setHMS(start, open);
-  const dayClose = setHMS(start, close);
-  const latestStart = addHours(dayClose, -durationH);
-
-  let s = start < dayOpen ? dayOpen : start;
-  if (s > latestStart) {
-    const nextDay = new Date(start);
-    nextDay.setDate(nextDay.getDate() + 1);
-    s = setHMS(nextDay, open);
-  }
-  const e = addHours(s, durationH);
-  return { s, e };
-}
-
 const MONTHS: Record<string, number> = {
   jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, sept: 8, oct: 9, nov: 10, dec: 11
 };
@@ -94,38 +113,45 @@ function insideWindow(d: Date, startISO?: string, endISO?: string) {
 
 // Local policy shape used by page + scheduler
 export type PolicyExt = {
+  /** Explicit hours for everyone; otherwise each technician's shift calendar applies */
   businessHours?: [number, number];
   windowStartISO?: string;
   windowEndISO?: string;
 };
 
-// post-process a preview to respect business hours + window, preserving duration
+// post-process a preview to respect the window and shift hours, preserving duration.
+// Ops tasks are fixed constraints for the solver, so only maintenance is adjusted.
+// Each job is kept inside its lead technician's shift (night work stays at night).
 function adjustPlanToPolicy(
   plan: { workorders: any[]; opsTasks: any[] },
   policy: PolicyExt
 ) {
-  const [open, close] = policy.businessHours ?? [9, 17];
+  const roster = new Map(getResourceSnapshot().technicians.map(t => [t.id, t]));
+  const override = policy.businessHours ? [windowFromHours(policy.businessHours)] : null;
 
   const fix = (item: any) => {
-    if (!item.start || !item.end) return;
+    if (!item.start || !item.end || item.status !== 'Scheduled') return;
     const start = new Date(item.start);
     const end = new Date(item.end);
     if (isNaN(+start) || isNaN(+end)) return;
 
-    // rebase to window start @ open if outside window
+    // rebase to window start if outside window
     let s = start;
     if (!insideWindow(s, policy.windowStartISO, policy.windowEndISO) && policy.windowStartISO) {
-      s = setHMS(new Date(policy.windowStartISO), open);
+      s = new Date(policy.windowStartISO);
     }
 
+    const lead = roster.get(item.technicianId);
+    const { windows, days } = override
+      ? { windows: override, days: undefined }
+      : lead ? shiftWindowsFor(lead, item.assignments?.[0]?.skill) : { windows: DEFAULT_SHIFT_DEFINITIONS[0].windows, days: undefined };
     const durationH = Math.max(0.25, (+end - +start) / 3_600_000);
-    const { s: s2, e: e2 } = clampStartPreservingDuration(s, durationH, open, close);
+    const { s: s2, e: e2 } = clampToShift(s, durationH, windows, days);
     item.start = isoLocal(s2);
     item.end = isoLocal(e2);
   };
 
   plan.workorders.forEach(fix);
-  plan.opsTasks.forEach(fix);
   return plan;
 }
 
@@ -133,61 +159,163 @@ function adjustPlanToPolicy(
 
 type StatusFilter = 'ALL' | 'AVAILABLE' | 'DUE' | 'DOWN';
 
-type PlanSnapshot = {
+type PlanSnapshot = PlanSummary & {
   workorders: ReturnType<typeof getWorkOrders>;
   opsTasks: ReturnType<typeof getOpsTasks>;
-  summary: string[];
-  moved: number;
-  scheduled: number;
-  unscheduled: number;
-  movedIds: string[];
-  scheduledIds: string[];
-  unscheduledIds: string[];
   when: string; // ISO timestamp
   status: 'accepted' | 'preview';
 };
 
+// First-run plan: fixture work orders plus generated PM work, and the ops week
+function seedPlan() {
+  const wos = getWorkOrders();
+  return { workorders: [...wos, ...generatePmWorkOrders(getVehicles(20), wos)], opsTasks: getOpsTasks() };
+}
+const loadPlanState = () => initPlanStore(seedPlan);
+
 export default function Dashboard() {
-  useEffect(() => { reseedGenericTechnicians(); }, []);
+  const horizon = useSyncExternalStore(subscribeHorizon, getHorizon);
+  const auditLog = useSyncExternalStore(subscribeAuditLog, getAuditLog);
+  const inventory = useSyncExternalStore(subscribeInventory, getInventory);
+  const draftPO = useSyncExternalStore(subscribeDraftPO, getDraftPO);
+  const depotSettings = useSyncExternalStore(subscribeDepotSettings, getDepotSettings);
+  const roster = useSyncExternalStore(subscribeResources, getResourceSnapshot);
+  useEffect(() => { initResources(); ensureHorizonAvailability(); }, [horizon]);
 
   // Base data (ops in state so agent edits are visible). IMPORTANT: no UI clamping here.
-  const vehicles = useMemo(() => getVehicles(20), []);
-  const [workorders, setWorkorders] = useState(() => getWorkOrders());
-  const [opsTasks, setOpsTasks] = useState(() => getOpsTasks(7));
+  const baseVehicles = useMemo(() => getVehicles(20), []);
+  // Plan lives in the persisted plan store (undo/redo, named versions, survives reload)
+  const planState = useSyncExternalStore(subscribePlanStore, loadPlanState);
+  const currentPlan = getCurrentVersion(planState);
+  const workorders = currentPlan.workorders;
+  const opsTasks = currentPlan.opsTasks;
 
   // UI state
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('ALL');
+  const [depotFilter, setDepotFilter] = useState<string | null>(null);
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
   const [selectedWoId, setSelectedWoId] = useState<string | null>(null);
+  const [drawerVehicleId, setDrawerVehicleId] = useState<string | null>(null);
 
   const [preview, setPreview] = useState<PlanSnapshot | null>(null);
-  const [planHistory, setPlanHistory] = useState<PlanSnapshot[]>([]);
+  // Agent mutations wait for the planner's tick before they touch the plan
+  const [staged, setStaged] = useState<{
+    request: string; agent: string; changes: StagedChange[]; selected: boolean[];
+    /** Why the last accept applied nothing */
+    errors?: string[];
+  } | null>(null);
+  const planHistory = useMemo<PlanSnapshot[]>(
+    () => planState.versions
+      .filter(v => v.kind === 'accepted' && v.plan)
+      .map(v => ({ ...v.plan!, workorders: v.workorders, opsTasks: v.opsTasks, when: v.when, status: 'accepted' })),
+    [planState.versions]
+  );
 
   const [activeAgent, setActiveAgent] = useState<AgentKey>('scheduler');
   const [helloMessage, setHelloMessage] = useState<string | undefined>(undefined);
   const [helloNonce, setHelloNonce] = useState<number>(0);
 
+  const conditionForecasts = useMemo(() => forecastCondition(getCondition(), { asOf: horizon.start }), [horizon.start]);
+  // Status is derived live from the work orders, PM due state and condition bands
+  const vehicles = useMemo(
+    () => deriveVehicleStatus(baseVehicles, workorders, { asOf: horizon.start, horizonDays: horizon.days, condition: conditionForecasts }),
+    [baseVehicles, workorders, horizon, conditionForecasts]
+  );
+
   // KPIs
   const outstanding = useMemo(
-    () => workorders.filter(w => w.status === 'Open' || w.status === 'Scheduled' || w.status === 'In Progress'),
+    () => workorders.filter(w => isActive(w.status)),
     [workorders]
   );
   const backlogHrs = useMemo(() => Math.round(outstanding.reduce((s, w) => s + (w.hours ?? 0), 0)), [outstanding]);
 
-  const clear = useMemo(() => vehicles.filter(v => v.status === 'AVAILABLE').length, [vehicles]);
-  const due   = useMemo(() => vehicles.filter(v => v.status === 'DUE').length, [vehicles]);
-  const down  = useMemo(() => vehicles.filter(v => v.status === 'DOWN').length, [vehicles]);
+  // Status tiles count the selected depot
+  const depotVehicles = useMemo(
+    () => (depotFilter ? vehicles.filter(v => v.depot === depotFilter) : vehicles),
+    [vehicles, depotFilter]
+  );
+  const clear = useMemo(() => depotVehicles.filter(v => v.status === 'AVAILABLE').length, [depotVehicles]);
+  const due   = useMemo(() => depotVehicles.filter(v => v.status === 'DUE').length, [depotVehicles]);
+  const down  = useMemo(() => depotVehicles.filter(v => v.status === 'DOWN').length, [depotVehicles]);
 
   // Filtering
+  const depots = useMemo(() => listDepots(baseVehicles), [baseVehicles]);
   const visibleVehicles = useMemo(
-    () => (statusFilter === 'ALL' ? vehicles : vehicles.filter(v => v.status === statusFilter)),
-    [vehicles, statusFilter]
+    () => (statusFilter === 'ALL' ? depotVehicles : depotVehicles.filter(v => v.status === statusFilter)),
+    [depotVehicles, statusFilter]
   );
   const visibleVehicleIds = useMemo(() => new Set(visibleVehicles.map(v => v.id)), [visibleVehicles]);
 
   const baseWorkorders = preview ? preview.workorders : workorders;
   const baseOps = preview ? preview.opsTasks : opsTasks;
 
+  // Clashes and utilisation if the ticked agent changes were applied (utilisation follows the roster)
+  const stagedImpact = useMemo(
+    () => (staged ? changeImpact(staged.changes, staged.selected, baseWorkorders, baseOps, horizon, roster) : null),
+    [staged, baseWorkorders, baseOps, horizon, roster]
+  );
+
+  // Parts: the current plan holds the reservations; flags follow whatever plan is on screen
+  useEffect(() => { syncReservations(workorders); }, [workorders]);
+  const partsReadiness = useMemo(() => partsReadinessFor(baseWorkorders, inventory), [baseWorkorders, inventory]);
+  const partsLateJobs = useMemo(
+    () => baseWorkorders.filter(w => w.start && partsReadiness.get(w.id)?.onTime === false).length,
+    [baseWorkorders, partsReadiness]
+  );
+  // Bays, lifts and tools held by the plan on screen
+  const workshopResources = useSyncExternalStore(subscribeWorkshop, getWorkshopResources);
+  const resourceLanes = useMemo(() => {
+    const depotOf = new Map(baseVehicles.map(v => [v.id, v.depot]));
+    return resourceOccupancy(baseWorkorders, id => depotOf.get(id), workshopResources)
+      .filter(l => !depotFilter || !l.resource.depot || l.resource.depot === depotFilter);
+  }, [baseWorkorders, baseVehicles, depotFilter, workshopResources]);
+  const reliability = useMemo(() => analyzeReliability(getFailures(), { asOf: horizon.start }), [horizon.start]);
+  const spikeAlerts = useMemo(() => detectFailureSpikes(getFailures(), { asOf: horizon.start }), [horizon.start]);
+  const conditionPredicted = useMemo(() => predictedFailures(conditionForecasts), [conditionForecasts]);
+  const conditionRuleHits = useMemo(
+    () => conditionTriggers(conditionForecasts, undefined, horizon.start),
+    [conditionForecasts, horizon.start]
+  );
+  const conditionPending = useMemo(
+    () => conditionWorkOrders(conditionRuleHits, baseWorkorders),
+    [conditionRuleHits, baseWorkorders]
+  );
+
+  // Everything the vehicle drawer shows, gathered only while it's open
+  const drawer = useMemo(() => {
+    const vehicle = vehicles.find(v => v.id === drawerVehicleId);
+    if (!vehicle) return null;
+    const id = vehicle.id;
+    return {
+      vehicle,
+      workorders: baseWorkorders.filter(w => w.vehicleId === id),
+      opsTasks: baseOps.filter(t => t.vehicleId === id && +new Date(t.end) > +horizon.start && +new Date(t.start) < +horizon.end),
+      failures: getFailures().filter(f => f.vehicleId === id).sort((a, b) => +new Date(b.date) - +new Date(a.date)),
+      condition: conditionForecasts.filter(c => c.vehicleId === id),
+      pm: computePmStatus([vehicle], baseWorkorders, { asOf: horizon.start, horizonDays: horizon.days }),
+      reliability: reliability.vehicles.find(r => r.vehicleId === id),
+      pareto: reliability.paretoByVehicle[id] ?? [],
+      findings: reliability.findings.filter(f => f.vehicleId === id),
+      spikes: spikeAlerts.filter(a => a.vehicleIds.includes(id)),
+    };
+  }, [drawerVehicleId, vehicles, baseWorkorders, baseOps, horizon, conditionForecasts, reliability, spikeAlerts]);
+
+  // Threshold rules raise their work orders on their own (once per session, so undo sticks)
+  useEffect(() => {
+    if (preview) return;
+    const muts = claimAutoRaise(conditionWorkOrders(conditionRuleHits, workorders));
+    if (!muts.length) return;
+    const { workorders: wo2, opsTasks: op2, notes } = applyMutationsToPlan(workorders, opsTasks, muts);
+    commitPlan({
+      name: `Condition monitor: ${muts.length} work orders`,
+      kind: 'mutation',
+      actor: { kind: 'script', name: 'Condition monitor' },
+      workorders: wo2,
+      opsTasks: op2,
+      notes,
+    });
+  }, [conditionRuleHits, workorders, opsTasks, preview]);
+
   const visibleWorkorders = useMemo(() => {
     const base = baseWorkorders.filter(w => visibleVehicleIds.has(w.vehicleId));
     return selectedVehicleId ? base.filter(w => w.vehicleId === selectedVehicleId) : base;
@@ -198,6 +326,34 @@ export default function Dashboard() {
     return selectedVehicleId ? base.filter(t => t.vehicleId === selectedVehicleId) : base;
   }, [baseOps, visibleVehicleIds, selectedVehicleId]);
 
+  // Gantt drag/resize → same mutation path as agent moves.
+  // Edits a pending proposal in place; otherwise commits a new plan version.
+  // Planner edits land in the open proposal if there is one, otherwise as a new version
+  const applyPlannerMutations = (muts: Mutation[], name: (notes: string[]) => string) => {
+    const { workorders: wo2, opsTasks: op2, notes } = applyMutationsToPlan(baseWorkorders, baseOps, muts);
+    if (preview) {
+      setPreview({ ...preview, workorders: wo2, opsTasks: op2, summary: [...preview.summary, ...notes] });
+      return;
+    }
+    commitPlan({
+      name: name(notes).slice(0, 80),
+      kind: 'mutation',
+      actor: { kind: 'user', name: 'Planner' },
+      workorders: wo2,
+      opsTasks: op2,
+      notes,
+    });
+  };
+
+  const applyGanttMutation = (m: Mutation) => applyPlannerMutations([m], notes => `Gantt: ${notes[0] ?? m.type}`);
+
+  const createInspectionCampaign = (alert: SpikeAlert) => {
+    const muts = inspectionCampaign(alert, baseWorkorders);
+    if (muts.length) applyPlannerMutations(muts, () => `Campaign: ${alert.label} (${muts.length} inspections)`);
+  };
+
+  const agentTitle = activeAgent === 'scheduler' ? 'Scheduler Agent' : activeAgent === 'reliability' ? 'Reliability Agent' : 'Parts Interpreter';
+
   // UI helper
   const chip = (label: string, val: StatusFilter) => (
     <button
@@ -217,9 +373,16 @@ export default function Dashboard() {
   /* ================= Agent hooks ================= */
 
   const agentDecide = async (text: string, history: QATurn[]): Promise<AgentDecision> => {
+    // Free text goes to the agent server (it holds the key); null = run in the browser
+    const api = agentApiBase();
+
     if (activeAgent === 'scheduler') {
       const baseWos = preview ? preview.workorders : workorders;
-      const pack = buildKnowledgePack({ horizonDays: 7, baseWorkorders: baseWos });
+      const baseOps = preview ? preview.opsTasks : opsTasks;
+
+      // Everyday commands are parsed locally; only the rest goes to the LLM
+      const local = parseCommand(text, { workorders: baseWos, opsTasks: baseOps, horizon });
+      if (local) return local;
 
       const planCtx: PlanContext = {
         lastAccepted: planHistory.at(-1) ? {
@@ -243,16 +406,20 @@ export default function Dashboard() {
       };
 
       // Return decision only; we'll apply side-effects in onDecide
-      return await analyzeWithLLM(text, pack, history, planCtx);
+      if (api) return await askAgent('scheduler', { text, history, workorders: baseWos, opsTasks: baseOps, horizon, planContext: planCtx }, api);
+      const pack = buildKnowledgePack({ horizon, baseWorkorders: baseWos, opsTasks: baseOps });
+      return await analyzeWithLLM(text, pack, horizon);
     }
 
     if (activeAgent === 'reliability') {
+      if (api) return await askAgent('reliability', { text, history }, api);
       const relPack = buildReliabilityPack(26, 180);
       return await analyzeReliabilityWithLLM(text, relPack, history);
     }
 
     if (activeAgent === 'parts') {
-      const partsPack = buildPartsPack();
+      if (api) return await askAgent('parts', { text, history, workorders: baseWorkorders }, api);
+      const partsPack = buildPartsPack(baseWorkorders);
       return await analyzePartsWithLLM(text, partsPack, history);
     }
 
@@ -263,11 +430,11 @@ export default function Dashboard() {
   const agentSuggest = async (policy?: PolicyExt) => {
     const res = proposeSchedule(baseWorkorders, baseOps, policy as SchedulerPolicy);
 
-    // post-process to respect window + hours & preserve durations
+    // post-process to respect window + shift hours & preserve durations
     const adjusted = adjustPlanToPolicy(
       { workorders: res.workorders, opsTasks: res.opsTasks },
       {
-        businessHours: (policy?.businessHours ?? [9, 17]),
+        businessHours: policy?.businessHours,
         windowStartISO: policy?.windowStartISO,
         windowEndISO: policy?.windowEndISO,
       }
@@ -283,6 +450,8 @@ export default function Dashboard() {
       movedIds: res.movedIds,
       scheduledIds: res.scheduledIds,
       unscheduledIds: res.unscheduledIds,
+      unscheduledReasons: res.unscheduledReasons,
+      partsBlockedIds: res.partsBlockedIds,
       when: new Date().toISOString(),
       status: 'preview',
     };
@@ -291,16 +460,66 @@ export default function Dashboard() {
     return { moved: res.moved, scheduled: res.scheduled, unscheduled: res.unscheduled, notes: res.rationale };
   };
 
-  const agentAccept = () => {
-    if (!preview) return;
-    setWorkorders(preview.workorders);
-    setOpsTasks(preview.opsTasks);
-    const accepted: PlanSnapshot = { ...preview, status: 'accepted', when: new Date().toISOString() };
-    setPlanHistory(prev => [...prev.slice(-5), accepted]);
+  // Apply the ticked (or all) staged changes as one batch: into the open proposal, else as a new version
+  const applyStaged = (all: boolean): { applied: boolean; errors: string[] } => {
+    if (!staged) return { applied: false, errors: ['No agent changes are waiting for review.'] };
+    const picked = staged.changes.filter((_, i) => all || staged.selected[i]);
+    if (!picked.length) return { applied: false, errors: ['No changes are ticked.'] };
+    const check = validateMutations(picked.map(c => c.mutation), { workorders: baseWorkorders, opsTasks: baseOps, horizon });
+    if (check.errors.length) {
+      // Leave it staged; the panel lists what's wrong with this selection
+      setStaged({ ...staged, selected: all ? staged.changes.map(() => true) : staged.selected, errors: check.errors });
+      return { applied: false, errors: check.errors };
+    }
+    const { workorders: wo2, opsTasks: op2, notes } = applyMutationsToPlan(baseWorkorders, baseOps, check.mutations);
+    const skipped = staged.changes.filter(c => !picked.includes(c)).map(c => `Not applied: ${c.label}`);
+    if (preview) {
+      setPreview({ ...preview, workorders: wo2, opsTasks: op2, summary: [...preview.summary, ...notes, ...skipped] });
+    } else {
+      commitPlan({
+        name: `Agent: ${staged.request.slice(0, 60)}`,
+        kind: 'mutation',
+        actor: { kind: 'agent', name: staged.agent },
+        workorders: wo2,
+        opsTasks: op2,
+        notes: [...notes, ...skipped],
+      });
+    }
+    setStaged(null);
+    return { applied: true, errors: [] };
+  };
+
+  const agentAccept = (): { applied: boolean; errors: string[] } => {
+    if (staged) return applyStaged(false);
+    if (!preview) return { applied: false, errors: ['No pending proposal.'] };
+    const plan: PlanSummary = {
+      summary: preview.summary,
+      moved: preview.moved,
+      scheduled: preview.scheduled,
+      unscheduled: preview.unscheduled,
+      movedIds: preview.movedIds,
+      scheduledIds: preview.scheduledIds,
+      unscheduledIds: preview.unscheduledIds,
+      unscheduledReasons: preview.unscheduledReasons,
+      partsBlockedIds: preview.partsBlockedIds,
+    };
+    commitPlan({
+      name: `Accepted plan — ${preview.scheduled} scheduled, ${preview.unscheduled} unplaced`,
+      kind: 'accepted',
+      actor: { kind: 'agent', name: 'Scheduler Agent' },
+      workorders: preview.workorders,
+      opsTasks: preview.opsTasks,
+      notes: preview.summary,
+      plan,
+    });
     setPreview(null);
+    return { applied: true, errors: [] };
   };
 
-  const agentReject = () => { setPreview(null); };
+  const agentReject = () => {
+    if (staged) setStaged(null);
+    else setPreview(null);
+  };
 
   const agentReport = async (q: ReportQuery) => {
     const plan = preview ?? planHistory.at(-1) ?? null;
@@ -358,7 +577,10 @@ export default function Dashboard() {
 
     if (q.kind === 'UNSCHEDULED') {
       if (plan) {
-        const items = pick(plan.unscheduledIds);
+        const items = pick(plan.unscheduledIds).map((line, i) => {
+          const reason = plan.unscheduledReasons?.[plan.unscheduledIds[i]];
+          return reason ? `${line}: ${reason}` : line;
+        });
         return items.length
           ? `${plan.status === 'preview' ? 'Couldn’t be scheduled in the current proposal' : 'Currently unscheduled (last accepted plan)'}:\n- ${items.join('\n- ')}`
           : 'All maintenance tasks are scheduled within the selected context.';
@@ -440,35 +662,44 @@ export default function Dashboard() {
         />
 
         <AgentConsole
-          title={activeAgent === 'scheduler' ? 'Scheduler Agent' : activeAgent === 'reliability' ? 'Reliability Agent' : 'Parts Interpreter'}
-          hasPreview={!!preview}
+          title={agentTitle}
+          hasPreview={!!preview || !!staged}
           onSuggest={(pol?: SchedulerPolicy) => agentSuggest(pol as unknown as PolicyExt)}
           onAccept={agentAccept}
-          onReject={() => setPreview(null)}
+          onReject={agentReject}
           onReport={agentReport}
           onDecide={async (text, history) => {
             const decision = await agentDecide(text, history);
 
-            // MUTATE → apply immediately
-            if (decision.intent === 'MUTATE' && (decision as any).mutations?.length) {
+            // MUTATE → validate the whole batch, then stage it for review (nothing applies until accepted)
+            if (decision.intent === 'MUTATE') {
               const baseWos = preview ? preview.workorders : workorders;
               const baseOps = preview ? preview.opsTasks   : opsTasks;
 
-              const { workorders: wo2, opsTasks: op2, notes } =
-                applyMutationsToPlan(baseWos, baseOps, (decision as any).mutations, { businessHours: [9,17] });
+              const check = validateMutations(decision.mutations, { workorders: baseWos, opsTasks: baseOps, horizon });
+              if (check.errors.length) {
+                return {
+                  intent: 'QA',
+                  answer: `Nothing applied — the changes didn't pass validation:\n- ${check.errors.join('\n- ')}`,
+                };
+              }
 
-              setWorkorders(wo2);
-              setOpsTasks(op2);
-              setPreview(null);
+              const changes = stageChanges(check.mutations, baseWos, baseOps);
+              const flagged = changes.filter(c => c.warning).length;
+              setStaged({ request: text, agent: agentTitle, changes, selected: changes.map(c => !c.warning) });
 
               return {
                 ...decision,
                 intent: 'QA',
                 answer: (decision.answer ? decision.answer + '\n' : '') +
-                        (notes.length ? `Applied changes:\n- ${notes.join('\n- ')}` : 'Applied changes.'),
+                        `Staged ${changes.length} change${changes.length === 1 ? '' : 's'} for review below — nothing is applied until you accept.` +
+                        (flagged ? ` ${flagged} flagged change${flagged === 1 ? ' starts' : 's start'} unticked.` : ''),
               };
             }
 
+            // Parts agent → hand the grounded PO lines to the draft panel for review
+            if (decision.purchaseOrder) setDraftPO(decision.purchaseOrder);
+
             // PLAN → parse range from the *user text*, augment policy, then propose + preview
             if (decision.intent === 'PLAN' && (decision as any).policy) {
               const pol: PolicyExt = { ...(decision as any).policy };
@@ -479,8 +710,6 @@ export default function Dashboard() {
                 pol.windowStartISO = range.startLocalISO;
                 pol.windowEndISO   = range.endLocalISO;
               }
-              if (!pol.businessHours) pol.businessHours = [9,17];
-
               await agentSuggest(pol);
               return { ...decision, answer: decision.answer ?? 'Proposed a new plan.' };
             }
@@ -491,6 +720,20 @@ export default function Dashboard() {
           helloNonce={helloNonce}
         />
 
+        {staged && stagedImpact && (
+          <MutationReview
+            request={staged.request}
+            changes={staged.changes}
+            selected={staged.selected}
+            impact={stagedImpact}
+            errors={staged.errors}
+            onToggle={(i) => setStaged({ ...staged, selected: staged.selected.map((on, j) => (j === i ? !on : on)), errors: undefined })}
+            onAcceptAll={() => applyStaged(true)}
+            onAcceptSelected={() => applyStaged(false)}
+            onReject={() => setStaged(null)}
+          />
+        )}
+
         {preview && (
           <div className="rounded-xl border border-emerald-700 bg-emerald-900/30 p-3">
             <div className="flex items-start justify-between gap-3">
@@ -498,6 +741,16 @@ export default function Dashboard() {
                 <div className="text-slate-100 text-sm font-semibold">
                   Proposed schedule ready — {preview.moved} moved, {preview.scheduled} scheduled, {preview.unscheduled} could not be placed
                 </div>
+                {!!preview.partsBlockedIds?.length && (
+                  <div className="mt-1 rounded-md border border-amber-700/50 bg-amber-900/20 px-2 py-1 text-xs text-amber-200">
+                    <div className="font-medium">Waiting on parts ({preview.partsBlockedIds.length})</div>
+                    <ul className="list-disc ml-5">
+                      {preview.partsBlockedIds.map(id => (
+                        <li key={id}>{id} — {preview.unscheduledReasons[id]}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <details className="mt-1 text-xs text-slate-300">
                   <summary className="cursor-pointer text-slate-200">Agent notes</summary>
                   <ul className="list-disc ml-5 mt-1 space-y-1">
@@ -515,16 +768,75 @@ export default function Dashboard() {
         )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          <DemandSummary />
-          <ResourceSummary />
+          <DemandSummary horizon={horizon} />
+          <ResourceSummary
+            horizon={horizon}
+            workorders={baseWorkorders}
+            vehicles={baseVehicles}
+            depot={depotFilter}
+            crossDepotTravelHours={depotSettings.crossDepotTravelHours}
+            onCrossDepotTravelHours={setCrossDepotTravelHours}
+            onSetAvailability={(technicianId, date, hours) => { applyMutations([{ op: 'SET_AVAIL', technicianId, date, hours }]); }}
+          />
         </div>
 
+        <PlanVersions
+          versions={planState.versions}
+          currentId={planState.currentId}
+          canUndo={planState.undo.length > 0}
+          canRedo={planState.redo.length > 0}
+          onUndo={() => { setPreview(null); undoPlan(); }}
+          onRedo={() => { setPreview(null); redoPlan(); }}
+          onRestore={(id) => { setPreview(null); restorePlan(id); }}
+          onRename={renamePlanVersion}
+        />
+
+        <InventoryPanel inventory={inventory} shortJobs={partsLateJobs} />
+
+        <SpikeAlerts alerts={spikeAlerts} workorders={baseWorkorders} onCreateCampaign={createInspectionCampaign} />
+
+        <ReliabilityPanel report={reliability} />
+
+        <ConditionMonitor
+          forecasts={conditionForecasts}
+          predicted={conditionPredicted}
+          triggers={conditionRuleHits}
+          pendingWorkOrders={conditionPending.length}
+          onRaise={() => applyPlannerMutations(conditionPending, () => `Condition rules: ${conditionPending.length} work orders`)}
+          onSelectVehicle={(id) => { setSelectedVehicleId(id); setDrawerVehicleId(id); }}
+        />
+
+        <PurchaseOrderPanel
+          po={draftPO}
+          onEditLine={updatePoLine}
+          onRemoveLine={removePoLine}
+          onDraftShortfalls={() => setDraftPO(draftFromShortfalls(consolidateDemand(baseWorkorders, inventory)))}
+          onDiscard={() => setDraftPO(null)}
+        />
+
+        <AuditTrail entries={auditLog} />
+
         <div className="flex flex-wrap items-center gap-2">
           <div className="text-xs text-slate-400 mr-1">Filter:</div>
           {chip('All', 'ALL')}
           {chip('Available', 'AVAILABLE')}
           {chip('Due', 'DUE')}
           {chip('Down', 'DOWN')}
+          {depots.length > 1 && <div className="text-xs text-slate-400 ml-3 mr-1">Depot:</div>}
+          {depots.length > 1 && [null, ...depots].map(d => (
+            <button
+              key={d ?? 'all'}
+              onClick={() => setDepotFilter(d)}
+              className={[
+                'px-3 py-1 rounded-md text-xs ring-1 transition',
+                depotFilter === d
+                  ? 'bg-sky-500/20 text-sky-200 ring-sky-500/40'
+                  : 'bg-slate-800/60 text-slate-300 ring-slate-700 hover:bg-slate-800'
+              ].join(' ')}
+            >
+              {d ?? 'All depots'}
+            </button>
+          ))}
           {selectedVehicleId && (
             <button onClick={() => setSelectedVehicleId(null)} className="ml-2 text-xs text-sky-400 hover:underline">
               Clear vehicle filter
@@ -544,7 +856,14 @@ export default function Dashboard() {
           vehicles={visibleVehicles}
           workorders={visibleWorkorders}
           opsTasks={visibleOpsTasks}
+          horizon={horizon}
+          onShiftWeek={shiftHorizon}
+          onToday={goToToday}
+          onHorizonDays={setHorizonDays}
           onTaskClick={(id) => setSelectedWoId(id)}
+          onMutate={applyGanttMutation}
+          partsReadiness={partsReadiness}
+          resourceLanes={resourceLanes}
         />
 
         {/* single, page-level modal */}
@@ -552,11 +871,24 @@ export default function Dashboard() {
           open={!!selectedWoId}
           onClose={() => setSelectedWoId(null)}
           workorders={workorders.filter(w => w.id === selectedWoId)}
+          partsReadiness={partsReadiness}
         />
       </div>
 
-      <VehicleGallery vehicles={visibleVehicles} selectedId={selectedVehicleId} onSelect={setSelectedVehicleId} />
-      <DemoFooter />
+      <VehicleGallery
+        vehicles={visibleVehicles}
+        selectedId={selectedVehicleId}
+        onSelect={(id) => { setSelectedVehicleId(id); setDrawerVehicleId(id); }}
+      />
+      {drawer && (
+        <VehicleDrawer
+          {...drawer}
+          asOf={horizon.start}
+          onClose={() => setDrawerVehicleId(null)}
+          onSelectWo={setSelectedWoId}
+        />
+      )}
+      <DemoFooter horizon={horizon} />
     </div>
   );
 }
@@ -0,0 +1,108 @@
+// src/server/agentService.ts
+// The agents as the server runs them (loaded by the agent proxy in
+// server/agentProxy.ts through Vite's SSR loader, so it shares every module with
+// the app). The LLM key and the knowledge packs stay here; the browser only
+// sends the question, the conversation so far and the plan it is looking at.
+import type { AgentDecision, OpsTask, PlanContext, QATurn, WorkOrder } from '../types';
+import { loadData, getOpsTasks, getWorkOrders } from '../data/adapter';
+import { dataSourceFromEnv } from '../data/dataSource';
+import { initResources } from '../data/resourceStore';
+import { normalizeOpsTask, normalizeWorkOrder } from '../data/normalize';
+import { getHorizon, horizonFrom } from '../data/planningHorizon';
+import type { PlanningHorizon } from '../data/planningHorizon';
+import { analyzeWithLLM } from '../agents/agentRuntime';
+import { buildKnowledgePack } from '../agents/context';
+import { buildReliabilityPack, analyzeReliabilityWithLLM } from '../agents/reliability';
+import { buildPartsPack, analyzePartsWithLLM } from '../agents/parts';
+import { getLlmClient, llmClientFromEnv, setLlmClient } from '../agents/llmClient';
+
+export const AGENTS = ['scheduler', 'reliability', 'parts'] as const;
+export type AgentName = typeof AGENTS[number];
+
+export type AgentRequest = {
+  text: string;
+  history?: QATurn[];
+  /** The plan as the planner sees it (unsaved moves, previews); default = the data source */
+  workorders?: unknown[];
+  opsTasks?: unknown[];
+  /** The planner's window; default = the server's VITE_HORIZON_* one */
+  horizon?: PlanningHorizon;
+  planContext?: PlanContext;
+};
+
+export type AgentReply = { decision: AgentDecision; provider: string };
+
+const MAX_HISTORY = 20;
+const MAX_TEXT = 4_000;
+
+let ready: Promise<void> | null = null;
+
+/** Load fleet data and configure the LLM once per server (env = unprefixed server variables) */
+function ensureReady(env: Record<string, string | undefined>): Promise<void> {
+  if (!ready) {
+    setLlmClient(llmClientFromEnv(env, ''));
+    ready = loadData(dataSourceFromEnv(env)).then(() => initResources());
+    ready.catch(() => { ready = null; });
+  }
+  return ready;
+}
+
+export function isAgentName(name: string): name is AgentName {
+  return (AGENTS as readonly string[]).includes(name);
+}
+
+/** Validate the JSON body; the message is safe to send back as a 400 */
+export function parseAgentRequest(body: unknown): AgentRequest | string {
+  if (!body || typeof body !== 'object') return 'expected a JSON object';
+  const b = body as Record<string, unknown>;
+  if (typeof b.text !== 'string' || !b.text.trim()) return '"text" is required';
+  if (b.text.length > MAX_TEXT) return `"text" is longer than ${MAX_TEXT} characters`;
+  const history = Array.isArray(b.history)
+    ? b.history
+        .filter((t): t is QATurn => !!t && typeof t === 'object' &&
+          ((t as QATurn).role === 'user' || (t as QATurn).role === 'assistant') && typeof (t as QATurn).text === 'string')
+        .slice(-MAX_HISTORY)
+    : [];
+  let horizon: PlanningHorizon | undefined;
+  if (b.horizon !== undefined) {
+    const h = b.horizon as Record<string, unknown> | null;
+    horizon = (h && typeof h.start === 'string' && horizonFrom(h.start, Number(h.days))) || undefined;
+    if (!horizon) return '"horizon" must be { start: "YYYY-MM-DD", days: 7 | 14 | 28 }';
+  }
+  return {
+    text: b.text.trim(),
+    history,
+    workorders: Array.isArray(b.workorders) ? b.workorders : undefined,
+    opsTasks: Array.isArray(b.opsTasks) ? b.opsTasks : undefined,
+    horizon,
+    planContext: b.planContext && typeof b.planContext === 'object' ? b.planContext as PlanContext : undefined,
+  };
+}
+
+export async function handleAgentRequest(
+  agent: AgentName,
+  req: AgentRequest,
+  env: Record<string, string | undefined>
+): Promise<AgentReply> {
+  await ensureReady(env);
+  const provider = getLlmClient().provider;
+  const history = req.history ?? [];
+  const workorders: WorkOrder[] = req.workorders
+    ? req.workorders.map(normalizeWorkOrder).filter(w => w.id && w.vehicleId)
+    : getWorkOrders();
+  const opsTasks: OpsTask[] = req.opsTasks
+    ? req.opsTasks.map(normalizeOpsTask).filter(t => t.id && t.vehicleId)
+    : getOpsTasks();
+  const horizon = req.horizon ?? getHorizon();
+
+  switch (agent) {
+    case 'scheduler': {
+      const pack = buildKnowledgePack({ horizon, baseWorkorders: workorders, opsTasks });
+      return { decision: await analyzeWithLLM(req.text, pack, horizon), provider };
+    }
+    case 'reliability':
+      return { decision: await analyzeReliabilityWithLLM(req.text, buildReliabilityPack(26, 180), history), provider };
+    case 'parts':
+      return { decision: await analyzePartsWithLLM(req.text, buildPartsPack(workorders), history), provider };
+  }
+}
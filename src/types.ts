@@ -11,32 +11,91 @@ export type Vehicle = {
   model?: string;
   year?: number;
   status: VehicleStatus;
+  /** Why the status engine (data/vehicleStatus.ts) chose status */
+  statusReasons?: string[];
   criticality?: Criticality;
   odometerKm?: number;
   engineHours?: number;
+  /** Home depot (e.g. "North") */
+  depot?: string;
   photoUrl?: string;
 };
 
+/** Headcount needed per skill, e.g. 1× Mechanic + 1× AutoElec working together */
+export type CrewRequirement = { skill: Skill; count: number };
+/** A named technician filling one crew seat */
+export type CrewAssignment = { skill: Skill; technicianId: string };
+
+/** Structured part need; requiredParts keeps the display strings */
+export type PartRequirement = { partId: string; qty: number; name?: string };
+
+/** One purchase-order line; qty is consolidated across every work order needing the part */
+export type PoLine = {
+  partId: string;
+  partName: string;
+  qty: number;
+  supplier: string;
+  unitCost: number;
+  needBy: string; // YYYY-MM-DD
+  woIds: string[];
+};
+
+/** A PO the planner can still edit before exporting; lines always reference catalog parts */
+export type PurchaseOrderDraft = {
+  id: string;
+  created: string; // ISO timestamp
+  source: 'agent' | 'shortfall';
+  lines: PoLine[];
+  notes?: string[];
+};
+
+/** Lifecycle states; legal transitions live in data/woLifecycle.ts */
+export type WorkOrderStatus =
+  | 'Open' | 'Scheduled' | 'In Progress' | 'On Hold' | 'Awaiting Parts' | 'Closed' | 'Cancelled';
+
 export type WorkOrder = {
   id: string;
   vehicleId: string;
   title: string;
   type: WoType;
   priority: Priority;
-  status: 'Open' | 'Scheduled' | 'In Progress' | 'Closed';
+  status: WorkOrderStatus;
   subsystem?: string;
   requiredSkills?: Skill[];
   /** Normalized for UI popups */
   requiredParts?: string[];
+  /** Part ids and quantities, for inventory reservations */
+  partLines?: PartRequirement[];
   /** Normalized for UI popups */
   requiredTools?: string[];
+  /** Lead technician (first crew assignment); kept for single-person jobs and older data */
   technicianId?: string;
+  /** Crew needed at the same time; defaults to one person per requiredSkills entry */
+  crew?: CrewRequirement[];
+  assignments?: CrewAssignment[];
+  /** Workshop bays, lifts and tools held while scheduled (workshop.ts resource ids) */
+  resourceClaims?: string[];
+  /** Set on preventive work generated from a PM task (pm.json id) */
+  pmId?: string;
   hours?: number;
   start?: string; // ISO
   end?: string;   // ISO
   description?: string;
 };
 
+export type PmIntervalUnit = 'h' | 'km' | 'd' | 'w';
+
+/** Preventive maintenance task definition (pm.json) */
+export type PmTask = {
+  id: string;
+  title: string;
+  subsystem: string;
+  interval: { value: number; unit: PmIntervalUnit };
+  intervalLabel: string; // as written in the source, e.g. "500h"
+  estimatedHours: number;
+  requiredSkills: Skill[];
+};
+
 export type OpsTask = {
   id: string; // unique ops id
   vehicleId: string;
@@ -72,11 +131,17 @@ export type ConditionSnapshot = {
   notes?: string;
 };
 
+/** Roster pattern used for days the source gives no availability for */
+export type ShiftPattern = 'day' | 'night' | 'rotating';
+
 /** NEW: used by resourceStore and scheduler */
 export type Technician = {
   id: string;
   name: string;
   skills: Skill[];
+  /** Home depot; technicians without one cover every depot */
+  depot?: string;
+  shift?: ShiftPattern;
 };
 
 /** NEW: daily availability blocks (date-local, hours available that day) */
@@ -84,6 +149,23 @@ export type AvailabilitySlot = {
   technicianId: string;
   date: string; // YYYY-MM-DD
   hours: number; // e.g., 8 for full day
+  /** Where the hours came from; 'manual' = edited in the app (SET_AVAIL) */
+  source?: 'roster' | 'shift' | 'leave' | 'holiday' | 'manual';
+};
+
+/** Leave for one technician, inclusive date range */
+export type LeaveRecord = {
+  technicianId: string;
+  from: string; // YYYY-MM-DD
+  to: string;   // YYYY-MM-DD
+  reason?: string;
+};
+
+/** Public holiday; without a depot it applies to every depot */
+export type PublicHoliday = {
+  date: string; // YYYY-MM-DD
+  name: string;
+  depot?: string;
 };
 
 export type AgentKey = 'scheduler' | 'reliability' | 'parts';
@@ -95,14 +177,22 @@ export type ReportQuery =
   | { kind: 'UNSCHEDULED' }
   | { kind: 'MOVED' }
   | { kind: 'DELTA'; nBack?: number }
-  | { kind: 'SCHEDULED_FOR_VEHICLE'; vehicleId: string };
+  | { kind: 'SCHEDULED_FOR_VEHICLE'; vehicleId: string }
+  | { kind: 'SUMMARY' };
 
 export type QATurn = { role: 'user' | 'assistant'; text: string };
 
 export type AgentDecision = {
-  intent: 'QA' | 'MUTATE' | 'PLAN' | 'UNKNOWN';
+  /** SUGGEST / ACCEPT / REJECT / REPORT are handled by the console itself */
+  intent: 'QA' | 'MUTATE' | 'PLAN' | 'SUGGEST' | 'ACCEPT' | 'REJECT' | 'REPORT' | 'UNKNOWN';
   answer?: string;
   mutations?: Array<any>;
+  /** PLAN / SUGGEST: scheduler policy */
+  policy?: SchedulerPolicy;
+  /** REPORT: which report to run */
+  report?: ReportQuery;
+  /** Parts agent: structured PO lines, grounded in the parts catalog */
+  purchaseOrder?: PurchaseOrderDraft;
 };
 
 export type PlanContext = {